@@ -2,11 +2,10 @@ import type {
   IAgentExecutor,
   AgentExecutionContext,
 } from "@a2alite/sdk/server";
-import type { Task, AgentCard } from "@a2alite/sdk/types";
+import type { AgentCard } from "@a2alite/sdk/types";
 import { serve } from "@hono/node-server";
 import { createHonoApp, A2AServer } from "@a2alite/sdk/server";
 import {
-  taskNotCancelableError,
   createTextPart,
   MessageHandler,
   ArtifactHandler,
@@ -76,6 +75,10 @@ class EchoAgentExecutor implements IAgentExecutor {
         const echoMessage = EchoAgentExecutor.messageMemory.get(currentTask.id);
         if (echoMessage) {
           for (let i = 0; i < echoCount; i++) {
+            // stop echoing once the task is canceled
+            if (context.signal.aborted) {
+              return;
+            }
             await stream.writeArtifact({
               artifact: new ArtifactHandler()
                 .withId("artifact-1")
@@ -107,10 +110,6 @@ class EchoAgentExecutor implements IAgentExecutor {
       });
     }
   }
-
-  async cancel(task: Task) {
-    return taskNotCancelableError(`Task ${task.id} cannot be canceled.`);
-  }
 }
 
 const a2aServer = new A2AServer({
@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AgentCard } from "../types/types.ts";
+import { A2AClient } from "./a2aClient.ts";
+
+const agentCard: AgentCard = {
+  name: "Test agent",
+  description: "Agent used in tests",
+  url: "https://agent.example/a2a",
+  version: "1.0.0",
+  defaultInputModes: ["text/plain"],
+  defaultOutputModes: ["text/plain"],
+  skills: [],
+  capabilities: { streaming: true },
+};
+
+const message = {
+  kind: "message" as const,
+  role: "user" as const,
+  messageId: "message-1",
+  parts: [{ kind: "text" as const, text: "hi" }],
+};
+
+const task = (state: string) => ({
+  kind: "task",
+  id: "task-1",
+  contextId: "context-1",
+  status: { state },
+});
+
+const statusUpdate = (state: string, final = false) => ({
+  kind: "status-update",
+  taskId: "task-1",
+  contextId: "context-1",
+  status: { state },
+  final,
+});
+
+const event = (result: unknown, id?: number) =>
+  `${id !== undefined ? `id: ${id}\n` : ""}data: ${JSON.stringify({ jsonrpc: "2.0", id: 1, result })}\n\n`;
+
+/**
+ * Creates an SSE response sending the chunks, then closing the stream or dropping the connection
+ */
+const sseResponse = (chunks: string[], { drop = false } = {}) => {
+  const pending = [...chunks];
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      // send one chunk per read, so the chunks are received before the connection drops
+      pull(controller) {
+        const chunk = pending.shift();
+        if (chunk !== undefined) {
+          controller.enqueue(encoder.encode(chunk));
+        } else if (drop) {
+          controller.error(new TypeError("terminated"));
+        } else {
+          controller.close();
+        }
+      },
+    }),
+    { headers: { "Content-Type": "text/event-stream" } }
+  );
+};
+
+const stubFetch = (...responses: Array<Response | Error>) => {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => {
+    const response = responses.shift();
+    if (!response) throw new Error("Unexpected request");
+    if (response instanceof Error) throw response;
+    return response;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+const requestOf = (fetchMock: ReturnType<typeof stubFetch>, call: number) => {
+  const init = fetchMock.mock.calls[call][1]!;
+  return {
+    body: JSON.parse(init.body as string),
+    headers: init.headers as Record<string, string>,
+  };
+};
+
+const collect = async <T>(stream: AsyncGenerator<T>) => {
+  const results: T[] = [];
+  for await (const result of stream) {
+    results.push(result);
+  }
+  return results;
+};
+
+describe("A2AClient streams", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("parses events split across chunks with any line ending", async () => {
+    const stream = [
+      ": heartbeat\n\n",
+      event(task("submitted"), 1).replace(/\n/g, "\r\n"),
+      event(statusUpdate("working"), 2).replace(/\n/g, "\r"),
+      event(statusUpdate("completed", true), 3),
+    ].join("");
+    // split every few characters, also between the \r and \n of a line ending
+    const chunks = stream.match(/[\s\S]{1,7}/g)!;
+    stubFetch(sseResponse(chunks));
+
+    const results = await collect(
+      new A2AClient(agentCard).sendStreamMessage({ message })
+    );
+    expect(results).toEqual([
+      task("submitted"),
+      statusUpdate("working"),
+      statusUpdate("completed", true),
+    ]);
+  });
+
+  it("resumes a dropped stream through tasks/resubscribe after the last event", async () => {
+    const fetchMock = stubFetch(
+      sseResponse(
+        [event(task("submitted"), 1), event(statusUpdate("working"), 2)],
+        {
+          drop: true,
+        }
+      ),
+      sseResponse([event(statusUpdate("completed", true), 3)])
+    );
+
+    const results = await collect(
+      new A2AClient(agentCard, { reconnectDelayMs: 0 }).sendStreamMessage({
+        message,
+      })
+    );
+    expect(results).toEqual([
+      task("submitted"),
+      statusUpdate("working"),
+      statusUpdate("completed", true),
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const resubscribe = requestOf(fetchMock, 1);
+    expect(resubscribe.body).toMatchObject({
+      method: "tasks/resubscribe",
+      params: { id: "task-1" },
+    });
+    expect(resubscribe.headers["Last-Event-ID"]).toBe("2");
+    expect(requestOf(fetchMock, 0).headers["Last-Event-ID"]).toBeUndefined();
+  });
+
+  it("resumes a stream that closed before the task finished", async () => {
+    const fetchMock = stubFetch(
+      sseResponse([event(task("working"), 1)]),
+      sseResponse([event(statusUpdate("completed", true), 2)])
+    );
+
+    await collect(
+      new A2AClient(agentCard, { reconnectDelayMs: 0 }).resubscribeTask({
+        id: "task-1",
+      })
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestOf(fetchMock, 1).headers["Last-Event-ID"]).toBe("1");
+  });
+
+  it("does not resume a task only sent as a snapshot", async () => {
+    const fetchMock = stubFetch(sseResponse([event(task("working"))]));
+
+    expect(
+      await collect(
+        new A2AClient(agentCard, { reconnectDelayMs: 0 }).resubscribeTask({
+          id: "task-1",
+        })
+      )
+    ).toEqual([task("working")]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the maximum reconnect attempts", async () => {
+    const fetchMock = stubFetch(
+      sseResponse([event(task("working"), 1)], { drop: true }),
+      new TypeError("fetch failed"),
+      new TypeError("fetch failed")
+    );
+
+    await expect(
+      collect(
+        new A2AClient(agentCard, {
+          reconnectDelayMs: 0,
+          maxReconnectAttempts: 2,
+        }).sendStreamMessage({ message })
+      )
+    ).rejects.toThrow(
+      "Lost the event stream of task task-1 after 2 reconnect attempts"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not resume after errors of the agent or before a task is known", async () => {
+    stubFetch(
+      sseResponse([
+        `data: ${JSON.stringify({ jsonrpc: "2.0", id: 1, error: { code: -32001, message: "Task not found" } })}\n\n`,
+      ])
+    );
+    await expect(
+      collect(new A2AClient(agentCard).resubscribeTask({ id: "task-1" }))
+    ).rejects.toMatchObject({ code: -32001 });
+
+    const fetchMock = stubFetch(new TypeError("fetch failed"));
+    await expect(
+      collect(new A2AClient(agentCard).sendStreamMessage({ message }))
+    ).rejects.toThrow("fetch failed");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,20 +3,26 @@ import {
   SendMessageSuccessResponse,
   GetTaskSuccessResponse,
   CancelTaskSuccessResponse,
+  ListTasksSuccessResponse,
   SendStreamingMessageSuccessResponse,
   TaskQueryParams,
   TaskIdParams,
+  ListTasksParams,
   JSONRPCError,
   JSONRPCRequest,
   RequestsByMethod,
   SendMessageResponseSchema,
   GetTaskResponseSchema,
   CancelTaskResponseSchema,
+  ListTasksResponseSchema,
   SendStreamingMessageResponseSchema,
   SendStreamingMessageResponse,
   AgentCardSchema,
   AgentCard,
+  isJSONRPCError,
 } from "../types/types.ts";
+import { isFinalTaskState, isPendingTaskState } from "../utils/taskState.ts";
+import type { IAuthProvider } from "./authProvider.ts";
 
 async function fetchAgentCard(
   baseUrl: string,
@@ -40,13 +46,103 @@ async function fetchAgentCard(
   }
 }
 
+/**
+ * An event parsed from a Server-Sent Events stream
+ */
+type SSEEvent = {
+  /** The ID of the event, if sent */
+  id?: string;
+  /** The data of the event, multiple data lines are joined with a newline */
+  data: string;
+};
+
+/**
+ * Parses the fields of a single SSE event
+ * @param rawEvent - The lines of the event
+ * @returns The parsed event, or undefined if the event has no data or id
+ */
+function parseSSEEvent(rawEvent: string): SSEEvent | undefined {
+  let id: string | undefined;
+  const data: string[] = [];
+  for (const line of rawEvent.split("\n")) {
+    // lines starting with ':' are comments
+    if (!line || line.startsWith(":")) continue;
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? "" : line.slice(separator + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "data") {
+      data.push(value);
+    } else if (field === "id") {
+      id = value;
+    }
+  }
+  if (id === undefined && data.length === 0) {
+    return undefined;
+  }
+  return { id, data: data.join("\n") };
+}
+
+/**
+ * Gets the ID of the task a stream result belongs to
+ */
+function getStreamResultTaskId(
+  result: SendStreamingMessageSuccessResponse["result"]
+): string | undefined {
+  return result.kind === "task" ? result.id : result.taskId;
+}
+
+/**
+ * Checks if a stream result is the last one sent for the task stream,
+ * i.e. a message or a task/status in a final or pending state
+ */
+function isLastStreamResult(
+  result: SendStreamingMessageSuccessResponse["result"]
+): boolean {
+  switch (result.kind) {
+    case "message":
+      return true;
+    case "task":
+      return (
+        isFinalTaskState(result.status.state) ||
+        isPendingTaskState(result.status.state)
+      );
+    case "status-update":
+      return (
+        result.final ||
+        isFinalTaskState(result.status.state) ||
+        isPendingTaskState(result.status.state)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Options for creating an A2AClient
+ */
+type A2AClientOptions = {
+  /** Maximum number of consecutive attempts to resume a dropped stream through tasks/resubscribe (default: 3) */
+  maxReconnectAttempts?: number;
+  /** Delay before resuming a dropped stream in milliseconds (default: 1000) */
+  reconnectDelayMs?: number;
+  /** Headers sent with every request to the agent, e.g. credentials */
+  headers?: Record<string, string>;
+  /** Optional provider of the credentials sent with every request. A request rejected with 401 is retried once with fresh credentials */
+  authProvider?: IAuthProvider;
+};
+
 class A2AClient {
   private _url: string;
   private _agentCard: AgentCard;
+  private readonly _maxReconnectAttempts: number;
+  private readonly _reconnectDelayMs: number;
+  private readonly _headers: Record<string, string>;
+  private readonly _authProvider?: IAuthProvider;
   private static idCounter: number = 0;
   private static idCounterBound: number = 1000000;
 
-  constructor(agentCard: AgentCard) {
+  constructor(agentCard: AgentCard, options: A2AClientOptions = {}) {
     // validate agent card
     const parsed = AgentCardSchema.safeParse(agentCard);
     if (!parsed.success) {
@@ -54,6 +150,10 @@ class A2AClient {
     }
     this._agentCard = parsed.data;
     this._url = parsed.data.url;
+    this._maxReconnectAttempts = options.maxReconnectAttempts ?? 3;
+    this._reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+    this._headers = options.headers ?? {};
+    this._authProvider = options.authProvider;
   }
 
   private static getNewId() {
@@ -62,7 +162,8 @@ class A2AClient {
 
   private async jsonRpcRequest<M extends keyof RequestsByMethod>(
     method: M,
-    params: RequestsByMethod[M]["params"]
+    params: RequestsByMethod[M]["params"],
+    headers: Record<string, string> = {}
   ): Promise<Response> {
     const url = this._url;
 
@@ -73,16 +174,50 @@ class A2AClient {
       id: A2AClient.getNewId(),
     };
 
-    const response = await fetch(url, {
+    const response = await this.authorizedFetch(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        ...headers,
       },
       body: JSON.stringify(payload),
     });
     return response;
   }
 
+  /**
+   * Sends a request with the configured headers and the credentials of the auth provider.
+   * If the agent rejects the credentials with 401, the request is retried once with fresh credentials.
+   */
+  private async authorizedFetch(
+    url: string,
+    init: RequestInit & { headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const credentials = await this._authProvider?.getCredentials(
+        this._agentCard
+      );
+      const requestUrl = new URL(url);
+      for (const [name, value] of Object.entries(credentials?.query ?? {})) {
+        requestUrl.searchParams.set(name, value);
+      }
+      const response = await fetch(requestUrl.href, {
+        ...init,
+        headers: {
+          ...this._headers,
+          ...credentials?.headers,
+          ...init.headers,
+        },
+      });
+      if (response.status !== 401 || !this._authProvider || attempt > 0) {
+        return response;
+      }
+      // discard the rejected credentials and retry
+      await response.body?.cancel();
+      await this._authProvider.invalidate?.();
+    }
+  }
+
   async sendMessage(
     params: MessageSendParams
   ): Promise<SendMessageSuccessResponse["result"] | JSONRPCError> {
@@ -129,121 +264,151 @@ class A2AClient {
     } else return jsonRpcResponse.result;
   }
 
+  /**
+   * Lists the tasks of the agent, most recently updated first.
+   * Pass the returned `nextPageToken` as `pageToken` to get the next page.
+   */
+  async listTasks(
+    params: ListTasksParams = {}
+  ): Promise<ListTasksSuccessResponse["result"] | JSONRPCError> {
+    const response = await this.jsonRpcRequest("tasks/list", params);
+    const bodyText = await response.text();
+    if (!bodyText) {
+      throw new Error("Empty response body");
+    }
+    let json = JSON.parse(bodyText);
+    let jsonRpcResponse = ListTasksResponseSchema.parse(json);
+    if ("error" in jsonRpcResponse) {
+      return jsonRpcResponse.error;
+    } else return jsonRpcResponse.result;
+  }
+
   async *sendStreamMessage(
     params: MessageSendParams
   ): AsyncGenerator<
     SendStreamingMessageSuccessResponse["result"] | JSONRPCError | undefined
   > {
-    const url = this._url;
-    const payload: JSONRPCRequest = {
-      jsonrpc: "2.0",
-      method: "message/stream",
-      params,
-      id: A2AClient.getNewId(),
-    };
-    const res = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "text/event-stream",
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!res.body) throw new Error("No response body for SSE stream");
-    for await (const eventText of this.parseSSEStream(res.body)) {
-      if (!eventText) continue;
-      let parsed: SendStreamingMessageResponse;
-      try {
-        let json = JSON.parse(eventText);
-        parsed = SendStreamingMessageResponseSchema.parse(json);
-      } catch (e) {
-        // TODO: log warning
-        console.warn("Invalid JSON-RPC response", e);
-        continue;
-      }
-      if ("error" in parsed) {
-        throw parsed.error;
-      }
-      if ("result" in parsed) {
-        yield parsed.result;
-      } else {
-        // TODO: log warning
-        yield undefined;
-      }
-    }
+    yield* this.streamRequest("message/stream", params);
   }
 
-  // TODO: refactor the common code with the sendStreamMessage method in a single private method to be used by both methods
   async *resubscribeTask(
     params: TaskIdParams
   ): AsyncGenerator<
     SendStreamingMessageSuccessResponse["result"] | JSONRPCError | undefined
   > {
-    const url = this._url;
-    const payload: JSONRPCRequest = {
-      jsonrpc: "2.0",
-      method: "tasks/resubscribe",
-      params,
-      id: A2AClient.getNewId(),
-    };
-    const res = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "text/event-stream",
-      },
-      body: JSON.stringify(payload),
-    });
+    yield* this.streamRequest("tasks/resubscribe", params);
+  }
 
-    if (!res.body) throw new Error("No response body for SSE stream");
-    for await (const eventText of this.parseSSEStream(res.body)) {
-      console.log("resubscribe eventText", eventText);
-      if (!eventText) continue;
-      let parsed: SendStreamingMessageResponse;
+  /**
+   * Sends a streaming request and yields the results of the received SSE events.
+   * If the connection drops before the task reaches a final or pending state, the stream is
+   * resumed through tasks/resubscribe with the ID of the last received event. Reconnecting stops once
+   * the server only sends a snapshot of the task, i.e. the task is no longer being streamed.
+   */
+  private async *streamRequest(
+    method: "message/stream" | "tasks/resubscribe",
+    params: MessageSendParams | TaskIdParams
+  ): AsyncGenerator<SendStreamingMessageSuccessResponse["result"] | undefined> {
+    let request = { method, params };
+    let lastEventId: string | undefined;
+    let taskId: string | undefined;
+    let reconnectAttempts = 0;
+    while (true) {
+      // true once the server sent the last event of the task stream
+      let streamEnded = false;
+      // true once the server sent an event of the task's event stream, a finished or
+      // paused task is only sent as a snapshot without an event ID
+      let streamResumed = false;
       try {
-        let json = JSON.parse(eventText);
-        parsed = SendStreamingMessageResponseSchema.parse(json);
-      } catch (e) {
-        // TODO: log warning
-        console.warn("Invalid JSON-RPC response", e);
-        continue;
-      }
-      if ("error" in parsed) {
-        throw parsed.error;
+        const res = await this.jsonRpcRequest(request.method, request.params, {
+          Accept: "text/event-stream",
+          ...(lastEventId !== undefined && { "Last-Event-ID": lastEventId }),
+        });
+        if (!res.body) throw new Error("No response body for SSE stream");
+        for await (const event of this.parseSSEStream(res.body)) {
+          if (event.id !== undefined) {
+            streamResumed = true;
+            // only new events show the stream makes progress
+            if (
+              lastEventId === undefined ||
+              Number(event.id) > Number(lastEventId)
+            ) {
+              lastEventId = event.id;
+              reconnectAttempts = 0;
+            }
+          }
+          if (!event.data) continue;
+          let parsed: SendStreamingMessageResponse;
+          try {
+            let json = JSON.parse(event.data);
+            parsed = SendStreamingMessageResponseSchema.parse(json);
+          } catch (e) {
+            // TODO: log warning
+            console.warn("Invalid JSON-RPC response", e);
+            continue;
+          }
+          if ("error" in parsed) {
+            throw parsed.error;
+          }
+          if ("result" in parsed) {
+            taskId = getStreamResultTaskId(parsed.result) ?? taskId;
+            streamEnded = isLastStreamResult(parsed.result);
+            yield parsed.result;
+          } else {
+            // TODO: log warning
+            yield undefined;
+          }
+        }
+        // the stream closed cleanly, resume it only if the task is still running
+        if (streamEnded || !taskId || !streamResumed) return;
+      } catch (error) {
+        // errors returned by the agent and failures before a task is known can not be resumed
+        if (isJSONRPCError(error) || !taskId) throw error;
       }
-      if ("result" in parsed) {
-        yield parsed.result;
-      } else {
-        // TODO: log warning
-        yield undefined;
+
+      if (reconnectAttempts >= this._maxReconnectAttempts) {
+        throw new Error(
+          `Lost the event stream of task ${taskId} after ${reconnectAttempts} reconnect attempts`
+        );
       }
+      reconnectAttempts++;
+      await new Promise((resolve) =>
+        setTimeout(resolve, this._reconnectDelayMs)
+      );
+      // resume the task stream after the last received event
+      request = { method: "tasks/resubscribe", params: { id: taskId } };
     }
   }
 
   // Helper to parse SSE events from a ReadableStream
   private async *parseSSEStream(
     stream: ReadableStream<Uint8Array>
-  ): AsyncGenerator<string> {
+  ): AsyncGenerator<SSEEvent> {
     const decoder = new TextDecoder();
     const reader = stream.getReader();
     let buffer = "";
+    // a trailing \r may be the first half of a \r\n line ending split across chunks
+    let pendingCarriageReturn = "";
     try {
       while (true) {
         const { value, done } = await reader.read();
 
         if (done) break;
-        buffer += decoder.decode(value, { stream: true });
+        let text =
+          pendingCarriageReturn + decoder.decode(value, { stream: true });
+        pendingCarriageReturn = text.endsWith("\r") ? "\r" : "";
+        if (pendingCarriageReturn) {
+          text = text.slice(0, -1);
+        }
+        buffer += text.replace(/\r\n?/g, "\n");
         let eventEnd;
         while ((eventEnd = buffer.indexOf("\n\n")) !== -1) {
           const rawEvent = buffer.slice(0, eventEnd);
           buffer = buffer.slice(eventEnd + 2);
-          // Only process lines starting with 'data:'
-          const dataLine = rawEvent
-            .split("\n")
-            .find((line) => line.startsWith("data:"));
-          if (dataLine) {
-            yield dataLine.slice(5).trim();
+          const event = parseSSEEvent(rawEvent);
+          // skip events without fields, e.g. comments
+          if (event) {
+            yield event;
           }
         }
       }
@@ -252,6 +417,37 @@ class A2AClient {
     }
   }
 
+  /**
+   * Fetches the extended agent card, served by the agent to authenticated clients.
+   * The request is sent with the headers and credentials configured in the client options.
+   * @param headers - Optional additional headers, e.g. credentials for this request
+   * @returns The extended agent card
+   * @throws Error if the agent does not support an extended card or the request fails
+   */
+  async getAuthenticatedExtendedCard(
+    headers: Record<string, string> = {}
+  ): Promise<AgentCard> {
+    if (!this._agentCard.supportsAuthenticatedExtendedCard) {
+      throw new Error("The agent does not support an extended agent card");
+    }
+    // the extended card is served at {url}/../agent/authenticatedExtendedCard
+    const url = new URL(
+      "agent/authenticatedExtendedCard",
+      this._url.replace(/\/+$/, "")
+    ).href;
+    const response = await this.authorizedFetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch extended agent card: ${response.statusText}`
+      );
+    }
+    const parsed = AgentCardSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error(`Invalid extended agent card: ${parsed.error.message}`);
+    }
+    return parsed.data;
+  }
+
   // getter for agent card
   get agentCard(): AgentCard {
     return this._agentCard!;
@@ -259,11 +455,13 @@ class A2AClient {
 
   static async getClientFromUrl(
     baseUrl: string,
-    path: string = "/.well-known/agent.json"
+    path: string = "/.well-known/agent.json",
+    options?: A2AClientOptions
   ): Promise<A2AClient> {
     const agentCard = await fetchAgentCard(baseUrl, path);
-    return new A2AClient(agentCard);
+    return new A2AClient(agentCard, options);
   }
 }
 
+export type { A2AClientOptions };
 export { A2AClient, fetchAgentCard };
@@ -0,0 +1,314 @@
+import {
+  SecuritySchemeSchema,
+  type AgentCard,
+  type SecurityScheme,
+} from "../types/types.ts";
+
+/**
+ * Credentials sent with a request to an agent
+ */
+type AuthCredentials = {
+  /** Headers to add to the request, e.g. `Authorization` */
+  headers: Record<string, string>;
+  /** Query parameters to add to the request URL, e.g. an API key sent in the query */
+  query: Record<string, string>;
+};
+
+/**
+ * Interface for providing the credentials an A2AClient sends to an agent
+ */
+interface IAuthProvider {
+  /**
+   * Gets the credentials for a request to an agent
+   * @param agentCard - The card of the agent, declaring its security schemes and requirements
+   * @returns The credentials to send with the request
+   */
+  getCredentials(agentCard: AgentCard): Promise<AuthCredentials>;
+  /**
+   * Discards cached credentials, called when the agent rejected a request with 401.
+   * The request is retried once with the credentials returned by the next `getCredentials` call.
+   */
+  invalidate?(): Promise<void> | void;
+}
+
+/**
+ * A credential value, or a function resolving it, e.g. to read a rotating secret
+ */
+type CredentialSource = string | (() => Promise<string> | string);
+
+/**
+ * Options for fetching access tokens with the OAuth2 client credentials flow
+ */
+type ClientCredentialsOptions = {
+  /** The client ID registered with the authorization server */
+  clientId: string;
+  /** The client secret registered with the authorization server */
+  clientSecret: string;
+  /** Token URL of the authorization server. The URLs of the agent card are not used, since the client secret is sent to them */
+  tokenUrl: string;
+  /** Optional URL for refreshing tokens. Defaults to the token URL */
+  refreshUrl?: string;
+  /** Optional scopes to request. Defaults to all scopes of the agent card's client credentials flow */
+  scopes?: string[];
+  /** Time in seconds before expiry after which a token is refreshed (default: 30) */
+  refreshSkewSeconds?: number;
+};
+
+/**
+ * Options for creating an AgentCardAuthProvider. Only the credentials of the schemes an agent declares are sent
+ */
+type AgentCardAuthProviderOptions = {
+  /** API key sent for `apiKey` security schemes, in the header, query parameter or cookie the scheme declares */
+  apiKey?: CredentialSource;
+  /** Token sent for `http` bearer, `oauth2` and `openIdConnect` security schemes */
+  bearerToken?: CredentialSource;
+  /** Username and password sent for `http` basic security schemes */
+  basic?: { username: string; password: string };
+  /** Client credentials used to fetch access tokens for `oauth2` security schemes with a client credentials flow */
+  clientCredentials?: ClientCredentialsOptions;
+};
+
+/**
+ * An access token fetched from an authorization server
+ */
+type AccessToken = {
+  accessToken: string;
+  refreshToken?: string;
+  /** Time in milliseconds after which the token is refreshed */
+  refreshAt: number;
+};
+
+/**
+ * Resolves a credential value
+ */
+async function resolveCredential(source: CredentialSource): Promise<string> {
+  return typeof source === "function" ? source() : source;
+}
+
+/**
+ * Provides credentials for the security schemes declared by an agent card.
+ *
+ * The first security requirement of the card (or, without requirements, the first declared scheme)
+ * for which all credentials are configured is used:
+ * - `apiKey` schemes send the API key where the scheme declares it.
+ * - `http` bearer and `openIdConnect` schemes send the bearer token.
+ * - `http` basic schemes send the username and password.
+ * - `oauth2` schemes with a client credentials flow send an access token fetched from the configured token URL,
+ *   cached and refreshed before it expires. Other `oauth2` schemes send the bearer token.
+ */
+class AgentCardAuthProvider implements IAuthProvider {
+  private readonly _options: AgentCardAuthProviderOptions;
+  private _accessToken?: AccessToken;
+  private _pendingAccessToken?: Promise<AccessToken>;
+
+  constructor(options: AgentCardAuthProviderOptions) {
+    this._options = options;
+  }
+
+  public async getCredentials(agentCard: AgentCard): Promise<AuthCredentials> {
+    const credentials: AuthCredentials = { headers: {}, query: {} };
+    const schemes = new Map<string, SecurityScheme>();
+    for (const [schemeName, securityScheme] of Object.entries(
+      agentCard.securitySchemes ?? {}
+    )) {
+      const parsed = SecuritySchemeSchema.safeParse(securityScheme);
+      if (parsed.success) {
+        schemes.set(schemeName, parsed.data);
+      }
+    }
+    const requirements = agentCard.security?.length
+      ? agentCard.security.map((requirement) => Object.keys(requirement))
+      : [...schemes.keys()].map((schemeName) => [schemeName]);
+    const requirement = requirements.find((schemeNames) =>
+      schemeNames.every((schemeName) => {
+        const scheme = schemes.get(schemeName);
+        return scheme !== undefined && this._supports(scheme);
+      })
+    );
+    for (const schemeName of requirement ?? []) {
+      await this._addCredentials(credentials, schemes.get(schemeName)!);
+    }
+    return credentials;
+  }
+
+  public invalidate(): void {
+    this._accessToken = undefined;
+  }
+
+  /**
+   * Checks if credentials are configured for a security scheme
+   * @private
+   */
+  private _supports(scheme: SecurityScheme): boolean {
+    switch (scheme.type) {
+      case "apiKey":
+        return this._options.apiKey !== undefined;
+      case "http":
+        switch (scheme.scheme.toLowerCase()) {
+          case "bearer":
+            return this._options.bearerToken !== undefined;
+          case "basic":
+            return this._options.basic !== undefined;
+          default:
+            return false;
+        }
+      case "oauth2":
+        return (
+          (scheme.flows.clientCredentials !== undefined &&
+            this._options.clientCredentials !== undefined) ||
+          this._options.bearerToken !== undefined
+        );
+      case "openIdConnect":
+        return this._options.bearerToken !== undefined;
+    }
+  }
+
+  /**
+   * Adds the credentials of a security scheme
+   * @private
+   */
+  private async _addCredentials(
+    credentials: AuthCredentials,
+    scheme: SecurityScheme
+  ): Promise<void> {
+    if (scheme.type === "apiKey") {
+      const key = await resolveCredential(this._options.apiKey!);
+      switch (scheme.in) {
+        case "header":
+          credentials.headers[scheme.name] = key;
+          break;
+        case "query":
+          credentials.query[scheme.name] = key;
+          break;
+        case "cookie": {
+          const cookie = `${scheme.name}=${encodeURIComponent(key)}`;
+          credentials.headers["Cookie"] = credentials.headers["Cookie"]
+            ? `${credentials.headers["Cookie"]}; ${cookie}`
+            : cookie;
+          break;
+        }
+      }
+      return;
+    }
+    if (scheme.type === "http" && scheme.scheme.toLowerCase() === "basic") {
+      const { username, password } = this._options.basic!;
+      const bytes = new TextEncoder().encode(`${username}:${password}`);
+      credentials.headers["Authorization"] = `Basic ${btoa(
+        String.fromCharCode(...bytes)
+      )}`;
+      return;
+    }
+    const clientCredentialsFlow =
+      scheme.type === "oauth2" ? scheme.flows.clientCredentials : undefined;
+    const token =
+      clientCredentialsFlow && this._options.clientCredentials
+        ? await this._getAccessToken(Object.keys(clientCredentialsFlow.scopes))
+        : await resolveCredential(this._options.bearerToken!);
+    credentials.headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  /**
+   * Gets a cached access token, fetching a new one if there is none or it is about to expire
+   * @private
+   */
+  private async _getAccessToken(scopes: string[]): Promise<string> {
+    if (this._accessToken && Date.now() < this._accessToken.refreshAt) {
+      return this._accessToken.accessToken;
+    }
+    // share a single token request between concurrent requests
+    if (!this._pendingAccessToken) {
+      const expiredToken = this._accessToken;
+      this._pendingAccessToken = this._fetchAccessToken(
+        scopes,
+        expiredToken?.refreshToken
+      ).finally(() => {
+        this._pendingAccessToken = undefined;
+      });
+    }
+    this._accessToken = await this._pendingAccessToken;
+    return this._accessToken.accessToken;
+  }
+
+  /**
+   * Fetches an access token with the refresh token, if any, falling back to the client credentials grant.
+   * Tokens are only requested from the configured URLs, so the agent card can not redirect the client credentials
+   * @private
+   */
+  private async _fetchAccessToken(
+    scopes: string[],
+    refreshToken?: string
+  ): Promise<AccessToken> {
+    const options = this._options.clientCredentials!;
+    if (refreshToken) {
+      try {
+        return await this._requestToken(
+          options.refreshUrl ?? options.tokenUrl,
+          {
+            grant_type: "refresh_token",
+            refresh_token: refreshToken,
+          }
+        );
+      } catch (e) {
+        // the refresh token may be expired, request a new token
+      }
+    }
+    const requestedScopes = options.scopes ?? scopes;
+    return this._requestToken(options.tokenUrl, {
+      grant_type: "client_credentials",
+      ...(requestedScopes.length > 0 && { scope: requestedScopes.join(" ") }),
+    });
+  }
+
+  /**
+   * Sends a token request to the authorization server, authenticating the client with HTTP basic auth
+   * @private
+   */
+  private async _requestToken(
+    url: string,
+    params: Record<string, string>
+  ): Promise<AccessToken> {
+    const {
+      clientId,
+      clientSecret,
+      refreshSkewSeconds = 30,
+    } = this._options.clientCredentials!;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+        Authorization: `Basic ${btoa(
+          `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`
+        )}`,
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch access token: ${response.statusText}`);
+    }
+    const json = await response.json();
+    if (typeof json?.access_token !== "string") {
+      throw new Error("Invalid token response: missing access_token");
+    }
+    const expiresIn =
+      typeof json.expires_in === "number" ? json.expires_in : undefined;
+    return {
+      accessToken: json.access_token,
+      refreshToken:
+        typeof json.refresh_token === "string" ? json.refresh_token : undefined,
+      refreshAt:
+        expiresIn === undefined
+          ? Infinity
+          : Date.now() + Math.max(expiresIn - refreshSkewSeconds, 0) * 1000,
+    };
+  }
+}
+
+export type {
+  AuthCredentials,
+  IAuthProvider,
+  CredentialSource,
+  ClientCredentialsOptions,
+  AgentCardAuthProviderOptions,
+};
+export { AgentCardAuthProvider };
@@ -1 +1,22 @@
-export { A2AClient, fetchAgentCard } from "./a2aClient.ts";
+export {
+  type A2AClientOptions,
+  A2AClient,
+  fetchAgentCard,
+} from "./a2aClient.ts";
+export {
+  type AuthCredentials,
+  type IAuthProvider,
+  type CredentialSource,
+  type ClientCredentialsOptions,
+  type AgentCardAuthProviderOptions,
+  AgentCardAuthProvider,
+} from "./authProvider.ts";
+export {
+  type PushNotificationVerifierOptions,
+  PushNotificationVerifier,
+} from "./pushNotificationVerifier.ts";
+export {
+  type PushNotificationEvent,
+  type PushNotificationReceiverOptions,
+  PushNotificationReceiver,
+} from "./pushNotificationReceiver.ts";
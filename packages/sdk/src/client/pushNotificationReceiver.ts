@@ -0,0 +1,323 @@
+import { Hono } from "hono";
+import { z } from "zod/v4";
+import {
+  TaskSchema,
+  TaskStatusUpdateEventSchema,
+  TaskArtifactUpdateEventSchema,
+  type Task,
+  type TaskStatusUpdateEvent,
+  type TaskArtifactUpdateEvent,
+} from "../types/types.ts";
+import {
+  PUSH_NOTIFICATION_TOKEN_HEADER,
+  isNotificationTokenEqual,
+} from "../utils/pushNotification.ts";
+import { isFinalTaskState } from "../utils/taskState.ts";
+import type { PushNotificationVerifier } from "./pushNotificationVerifier.ts";
+
+/**
+ * Schema of the payloads accepted by the receiver
+ */
+const PushNotificationEventSchema = z.union([
+  TaskSchema,
+  TaskStatusUpdateEventSchema,
+  TaskArtifactUpdateEventSchema,
+]);
+
+/**
+ * A push notification received from an agent: the updated task or a task update event
+ */
+type PushNotificationEvent = z.infer<typeof PushNotificationEventSchema>;
+
+/**
+ * Options for creating a push notification receiver
+ */
+type PushNotificationReceiverOptions = {
+  /** Expected value of the `X-A2A-Notification-Token` header. If set, notifications without it are rejected */
+  token?: string;
+  /** Optional verifier to reject notifications that are not signed by the agent */
+  verifier?: PushNotificationVerifier;
+  /** Called with every received task */
+  onTask?: (task: Task) => Promise<void> | void;
+  /** Called with every received status update event */
+  onStatusUpdate?: (event: TaskStatusUpdateEvent) => Promise<void> | void;
+  /** Called with every received artifact update event */
+  onArtifactUpdate?: (event: TaskArtifactUpdateEvent) => Promise<void> | void;
+  /** Called when a callback throws. The error does not affect the response sent to the agent */
+  onError?: (error: unknown, event: PushNotificationEvent) => void;
+  /** Maximum number of notifications buffered per task until they are iterated (default: 100) */
+  maxBufferedEvents?: number;
+  /** Maximum number of finished tasks remembered to end late iterators right away (default: 1000) */
+  maxFinishedTasks?: number;
+  /** Maximum number of tasks whose notifications are buffered while nobody iterates them, the least recently notified are dropped (default: 1000) */
+  maxBufferedTasks?: number;
+};
+
+/**
+ * Buffered notifications and waiting iterators of a single task
+ */
+type TaskSubscription = {
+  queue: PushNotificationEvent[];
+  resolve: ((value: PushNotificationEvent | undefined) => void) | undefined;
+  finished: boolean;
+  iterating: boolean;
+};
+
+/**
+ * Checks if a notification means no further notifications are expected for the task
+ * @param event - The received notification
+ * @returns true if the task reached a final state
+ */
+function isFinalEvent(event: PushNotificationEvent): boolean {
+  switch (event.kind) {
+    case "task":
+      return isFinalTaskState(event.status.state);
+    case "status-update":
+      return event.final || isFinalTaskState(event.status.state);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Gets the ID of the task a notification belongs to
+ */
+function getTaskId(event: PushNotificationEvent): string {
+  return event.kind === "task" ? event.id : event.taskId;
+}
+
+/**
+ * Receives push notifications sent by A2A agents.
+ *
+ * The receiver validates the notification token (and signature, if a verifier is set),
+ * parses the payload and dispatches it to the callbacks and to per-task async iterators.
+ *
+ * It can be mounted as a Hono sub-app:
+ * ```ts
+ * app.route("/a2a/notifications", receiver.app);
+ * ```
+ * or used as a plain fetch handler:
+ * ```ts
+ * const response = await receiver.handle(request);
+ * ```
+ */
+class PushNotificationReceiver {
+  private readonly _options: PushNotificationReceiverOptions;
+  private readonly _maxBufferedEvents: number;
+  private readonly _maxFinishedTasks: number;
+  private readonly _maxBufferedTasks: number;
+  // subscriptions in the order their tasks were last notified
+  private readonly _subscriptions = new Map<string, TaskSubscription>();
+  private readonly _finishedTasks = new Set<string>();
+  /** Hono app accepting push notifications on `POST /` */
+  public readonly app: Hono;
+
+  constructor(options: PushNotificationReceiverOptions = {}) {
+    this._options = options;
+    this._maxBufferedEvents = options.maxBufferedEvents ?? 100;
+    this._maxFinishedTasks = options.maxFinishedTasks ?? 1000;
+    this._maxBufferedTasks = options.maxBufferedTasks ?? 1000;
+    this.app = new Hono();
+    this.app.post("/", (c) => this.handle(c.req.raw));
+  }
+
+  /**
+   * Handles a push notification request
+   * @param request - The received request
+   * @returns The response to send back to the agent
+   */
+  public handle = async (request: Request): Promise<Response> => {
+    // validate the token
+    if (
+      this._options.token !== undefined &&
+      !(await isNotificationTokenEqual(
+        request.headers.get(PUSH_NOTIFICATION_TOKEN_HEADER) ?? "",
+        this._options.token
+      ))
+    ) {
+      return new Response("Invalid notification token", { status: 401 });
+    }
+
+    // validate the signature
+    let body: string;
+    if (this._options.verifier) {
+      try {
+        body = await this._options.verifier.verifyRequest(request);
+      } catch (error) {
+        return new Response(
+          error instanceof Error ? error.message : "Invalid signature",
+          { status: 401 }
+        );
+      }
+    } else {
+      body = await request.text();
+    }
+
+    // parse the notification
+    let event: PushNotificationEvent;
+    try {
+      const parsed = PushNotificationEventSchema.safeParse(JSON.parse(body));
+      if (!parsed.success) {
+        return new Response(`Invalid notification: ${parsed.error.message}`, {
+          status: 400,
+        });
+      }
+      event = parsed.data;
+    } catch (error) {
+      return new Response("Invalid json in the body", { status: 400 });
+    }
+
+    await this._dispatch(event);
+    return new Response(null, { status: 200 });
+  };
+
+  /**
+   * Dispatches a notification to the callbacks and the iterators of its task
+   * @private
+   */
+  private async _dispatch(event: PushNotificationEvent): Promise<void> {
+    const taskId = getTaskId(event);
+    if (!this._finishedTasks.has(taskId)) {
+      const subscription = this._getSubscription(taskId);
+      // keep the subscriptions in the order their tasks were last notified
+      this._subscriptions.delete(taskId);
+      this._subscriptions.set(taskId, subscription);
+      if (!subscription.finished) {
+        // the iterator ends after consuming the final notification
+        subscription.finished = isFinalEvent(event);
+        const resolve = subscription.resolve;
+        subscription.resolve = undefined;
+        if (resolve) {
+          resolve(event);
+        } else {
+          subscription.queue.push(event);
+          // drop the oldest notifications if nobody is iterating the task
+          if (subscription.queue.length > this._maxBufferedEvents) {
+            subscription.queue.shift();
+          }
+        }
+        // nobody will consume the buffered notifications of a finished task
+        if (subscription.finished && !subscription.iterating) {
+          this._finishTask(taskId);
+        }
+      }
+      this._evictIdleSubscriptions();
+    }
+
+    try {
+      switch (event.kind) {
+        case "task":
+          await this._options.onTask?.(event);
+          break;
+        case "status-update":
+          await this._options.onStatusUpdate?.(event);
+          break;
+        case "artifact-update":
+          await this._options.onArtifactUpdate?.(event);
+          break;
+      }
+    } catch (error) {
+      this._options.onError?.(error, event);
+    }
+  }
+
+  /**
+   * Releases the subscription of a finished task and remembers the task as finished
+   * @private
+   */
+  private _finishTask(taskId: string): void {
+    this._subscriptions.delete(taskId);
+    this._finishedTasks.add(taskId);
+    // forget the oldest finished tasks
+    if (this._finishedTasks.size > this._maxFinishedTasks) {
+      const oldest = this._finishedTasks.values().next().value!;
+      this._finishedTasks.delete(oldest);
+    }
+  }
+
+  /**
+   * Drops the buffered notifications of the least recently notified tasks nobody iterates,
+   * so tasks that never finish and are never iterated are not kept forever
+   * @private
+   */
+  private _evictIdleSubscriptions(): void {
+    let idle = 0;
+    for (const subscription of this._subscriptions.values()) {
+      if (!subscription.iterating) idle++;
+    }
+    for (const [taskId, subscription] of this._subscriptions) {
+      if (idle <= this._maxBufferedTasks) break;
+      if (!subscription.iterating) {
+        this._subscriptions.delete(taskId);
+        idle--;
+      }
+    }
+  }
+
+  /**
+   * Gets or creates the subscription of a task
+   * @private
+   */
+  private _getSubscription(taskId: string): TaskSubscription {
+    let subscription = this._subscriptions.get(taskId);
+    if (!subscription) {
+      subscription = {
+        queue: [],
+        resolve: undefined,
+        finished: false,
+        iterating: false,
+      };
+      this._subscriptions.set(taskId, subscription);
+    }
+    return subscription;
+  }
+
+  /**
+   * Iterates the notifications received for a task, including the ones received before iterating.
+   * The iterator ends once the task reaches a final state, right away if the task finished before
+   * iterating. Only one iterator per task is supported.
+   * @param taskId - The ID of the task
+   * @returns Async generator of the task notifications
+   * @throws Error if the notifications of the task are already being iterated
+   */
+  public async *events(taskId: string): AsyncGenerator<PushNotificationEvent> {
+    if (this._finishedTasks.has(taskId)) {
+      return;
+    }
+    const subscription = this._getSubscription(taskId);
+    if (subscription.iterating) {
+      throw new Error(
+        `The notifications of task ${taskId} are already being iterated`
+      );
+    }
+    subscription.iterating = true;
+    try {
+      while (subscription.queue.length > 0 || !subscription.finished) {
+        if (subscription.queue.length > 0) {
+          yield subscription.queue.shift()!;
+        } else {
+          const event = await new Promise<PushNotificationEvent | undefined>(
+            (resolve) => {
+              subscription.resolve = resolve;
+            }
+          );
+          subscription.resolve = undefined;
+          if (event) {
+            yield event;
+          } else {
+            break;
+          }
+        }
+      }
+    } finally {
+      subscription.iterating = false;
+      // release the task once all of its notifications are consumed
+      if (subscription.finished) {
+        this._finishTask(taskId);
+      }
+    }
+  }
+}
+
+export type { PushNotificationEvent, PushNotificationReceiverOptions };
+export { PushNotificationReceiver };
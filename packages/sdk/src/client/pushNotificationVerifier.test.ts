@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PushNotificationSigner } from "../server/pushNotification/signer.ts";
+import { PUSH_NOTIFICATION_SIGNATURE_HEADER } from "../utils/pushNotification.ts";
+import { PushNotificationVerifier } from "./pushNotificationVerifier.ts";
+
+const jwksUrl = "https://agent.example/.well-known/jwks.json";
+const body = JSON.stringify({ id: "task-1", status: { state: "completed" } });
+
+describe("PushNotificationVerifier", () => {
+  let signer: PushNotificationSigner;
+  let verifier: PushNotificationVerifier;
+
+  beforeEach(async () => {
+    signer = await PushNotificationSigner.generate({ keyId: "key-1" });
+    const jwks = await signer.getJwks();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json(jwks))
+    );
+    verifier = new PushNotificationVerifier({ jwksUrl });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("accepts a notification signed by the agent", async () => {
+    await expect(
+      verifier.verify(body, await signer.sign(body))
+    ).resolves.toBeUndefined();
+  });
+
+  it("reads the signature and body of a request", async () => {
+    const request = new Request("https://client.example/notifications", {
+      method: "POST",
+      headers: {
+        [PUSH_NOTIFICATION_SIGNATURE_HEADER]: await signer.sign(body),
+      },
+      body,
+    });
+
+    expect(await verifier.verifyRequest(request)).toBe(body);
+    // the body is read from a clone, so the request can still be consumed
+    expect(await request.text()).toBe(body);
+  });
+
+  it("rejects a missing signature", async () => {
+    await expect(verifier.verify(body, null)).rejects.toThrow(
+      "Missing push notification signature"
+    );
+  });
+
+  it("rejects a signature of a different body", async () => {
+    await expect(
+      verifier.verify(body, await signer.sign("{}"))
+    ).rejects.toThrow("Push notification body does not match the signature");
+  });
+
+  it("rejects a signature of another key with the same key ID", async () => {
+    const otherSigner = await PushNotificationSigner.generate({
+      keyId: "key-1",
+    });
+    await expect(
+      verifier.verify(body, await otherSigner.sign(body))
+    ).rejects.toThrow("Invalid push notification signature");
+  });
+
+  it("rejects an unknown key ID", async () => {
+    const otherSigner = await PushNotificationSigner.generate({
+      keyId: "key-2",
+    });
+    await expect(
+      verifier.verify(body, await otherSigner.sign(body))
+    ).rejects.toThrow("Unknown signing key: key-2");
+  });
+
+  it("rejects an expired signature", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const signature = await signer.sign(body);
+
+    vi.setSystemTime(Date.now() + 331_000);
+    await expect(verifier.verify(body, signature)).rejects.toThrow(
+      "Push notification signature is expired"
+    );
+  });
+
+  it("rejects a signature issued in the future", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 60_000);
+    const signature = await signer.sign(body);
+
+    vi.setSystemTime(Date.now() - 60_000);
+    await expect(verifier.verify(body, signature)).rejects.toThrow(
+      "Push notification signature is expired"
+    );
+  });
+
+  it("rejects a malformed signature", async () => {
+    await expect(verifier.verify(body, "not-a-jwt")).rejects.toThrow(
+      "Malformed JWT"
+    );
+  });
+});
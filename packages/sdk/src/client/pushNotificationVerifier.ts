@@ -0,0 +1,117 @@
+import {
+  decodeJwt,
+  importJwtPublicKey,
+  isJwtAlgorithm,
+  jwkAllowsAlgorithm,
+  JwksCache,
+  sha256Hex,
+  verifyJwtSignature,
+} from "../utils/jwt.ts";
+import { PUSH_NOTIFICATION_SIGNATURE_HEADER } from "../utils/pushNotification.ts";
+
+/**
+ * Options for creating a push notification verifier
+ */
+type PushNotificationVerifierOptions = {
+  /** URL of the agent's JWKS endpoint, e.g. `http://localhost:3000/.well-known/jwks.json` */
+  jwksUrl: string;
+  /** Maximum accepted age of a notification signature in seconds (default: 300) */
+  maxAgeSeconds?: number;
+  /** Tolerated clock difference between the agent and the receiver in seconds (default: 30) */
+  clockToleranceSeconds?: number;
+  /** How long fetched keys are cached in seconds (default: 3600) */
+  jwksCacheTtlSeconds?: number;
+  /** Minimum time in seconds between two JWKS fetches, also for unknown key IDs (default: 30) */
+  jwksMinRefreshIntervalSeconds?: number;
+};
+
+/**
+ * Verifies signed push notifications sent by an A2A agent against the agent's JWKS.
+ *
+ * A notification is accepted if:
+ * - its JWT signature is valid for a key published by the agent for the signature algorithm,
+ * - the `iat` claim is recent enough,
+ * - the `request_body_sha256` claim matches the hash of the received body.
+ */
+class PushNotificationVerifier {
+  private readonly _jwks: JwksCache;
+  private readonly _maxAgeSeconds: number;
+  private readonly _clockToleranceSeconds: number;
+
+  constructor({
+    jwksUrl,
+    maxAgeSeconds = 300,
+    clockToleranceSeconds = 30,
+    jwksCacheTtlSeconds = 3600,
+    jwksMinRefreshIntervalSeconds = 30,
+  }: PushNotificationVerifierOptions) {
+    this._jwks = new JwksCache({
+      jwksUrl,
+      cacheTtlSeconds: jwksCacheTtlSeconds,
+      minRefreshIntervalSeconds: jwksMinRefreshIntervalSeconds,
+    });
+    this._maxAgeSeconds = maxAgeSeconds;
+    this._clockToleranceSeconds = clockToleranceSeconds;
+  }
+
+  /**
+   * Verifies a signed push notification
+   * @param body - The raw body of the received notification
+   * @param signature - The JWT received in the `X-A2A-Notification-Signature` header
+   * @throws Error if the notification is not signed by the agent or the signature is expired
+   */
+  async verify(body: string, signature: string | null | undefined) {
+    if (!signature) {
+      throw new Error("Missing push notification signature");
+    }
+    const jwt = decodeJwt(signature);
+    const alg = jwt.header.alg;
+    if (!isJwtAlgorithm(alg)) {
+      throw new Error(`Unsupported signature algorithm: ${alg}`);
+    }
+
+    const jwk = await this._jwks.findKey(jwt.header.kid);
+    if (!jwk) {
+      throw new Error(`Unknown signing key: ${jwt.header.kid}`);
+    }
+    if (!jwkAllowsAlgorithm(jwk, alg)) {
+      throw new Error(`Signing key ${jwt.header.kid} is not used with ${alg}`);
+    }
+    const publicKey = await importJwtPublicKey(jwk, alg);
+    if (!(await verifyJwtSignature(jwt, publicKey, alg))) {
+      throw new Error("Invalid push notification signature");
+    }
+
+    const iat = jwt.payload.iat;
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      typeof iat !== "number" ||
+      iat > now + this._clockToleranceSeconds ||
+      now - iat > this._maxAgeSeconds + this._clockToleranceSeconds
+    ) {
+      throw new Error("Push notification signature is expired");
+    }
+
+    if (jwt.payload.request_body_sha256 !== (await sha256Hex(body))) {
+      throw new Error("Push notification body does not match the signature");
+    }
+  }
+
+  /**
+   * Verifies a push notification received as a fetch API Request
+   * @param request - The received request, its body is read from a clone
+   * @returns The raw body of the verified notification
+   * @throws Error if the notification is not signed by the agent or the signature is expired
+   */
+  async verifyRequest(request: Request): Promise<string> {
+    const body = await request.clone().text();
+    await this.verify(
+      body,
+      request.headers.get(PUSH_NOTIFICATION_SIGNATURE_HEADER)
+    );
+    return body;
+  }
+}
+
+export type { PushNotificationVerifierOptions };
+export { PushNotificationVerifier };
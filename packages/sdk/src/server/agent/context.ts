@@ -14,8 +14,15 @@ import type {
   AgentTaskParams,
   StreamQueueFactory,
   StreamResult,
+  TaskLister,
 } from "./types.ts";
+import type {
+  TaskQuery,
+  StoreQueryResult,
+} from "../providers/storage/index.ts";
 import { AgentTaskStream } from "./stream.ts";
+import { createTextPart } from "../../utils/part.ts";
+import { getPartMimeType, isMimeTypeAccepted } from "../../utils/mime.ts";
 
 /**
  * Determines if a request should block until completion
@@ -41,6 +48,12 @@ class AgentExecutionContext {
   public currentTask?: Task;
   /** Reference tasks related to this context */
   public referenceTasks?: Task[];
+  /** Output modes accepted by the client, all output modes are accepted if the client did not send any */
+  public acceptedOutputModes?: string[];
+  /** Controller used to abort the execution when the task is canceled */
+  private readonly _abortController = new AbortController();
+  /** Lists the stored tasks the caller may access */
+  private readonly _listTasks?: TaskLister;
 
   /**
    * Ensures a current task exists, throwing an error if not
@@ -61,18 +74,24 @@ class AgentExecutionContext {
    * @param task - Optional existing task if the context is running an existing task received from the client
    * @param referenceTasks - Optional reference tasks received from the client
    * @param id - Optional custom context ID, used as a fallback if there is no task or request to extract a contextId from, if not provided a auto generated uuid is used as a fallback.
+   * @param acceptedOutputModes - Optional output modes accepted by the client
+   * @param listTasks - Optional function listing the stored tasks the caller may access, used by `listContextTasks`
    */
   constructor(
     request: AgentRequest,
     streamQueueFactory: StreamQueueFactory,
     task?: Task,
     referenceTasks?: Task[],
-    id?: string
+    id?: string,
+    acceptedOutputModes?: string[],
+    listTasks?: TaskLister
   ) {
     this.streamQueueFactory = streamQueueFactory;
     this.request = request;
     this.currentTask = task;
     this.referenceTasks = referenceTasks;
+    this.acceptedOutputModes = acceptedOutputModes;
+    this._listTasks = listTasks;
     this.id =
       task?.contextId ||
       this.request.params.message.contextId ||
@@ -80,6 +99,67 @@ class AgentExecutionContext {
       uuidv4();
   }
 
+  /**
+   * Abort signal fired when the task of this context is canceled.
+   * Executors can check it or pass it to long-running operations to stop working on a canceled task.
+   */
+  public get signal(): AbortSignal {
+    return this._abortController.signal;
+  }
+
+  /**
+   * Aborts the execution of this context, firing its abort signal
+   * @param reason - Optional abort reason
+   */
+  public abort(reason?: unknown) {
+    this._abortController.abort(reason);
+  }
+
+  /**
+   * Lists the stored tasks of this context, most recently updated first,
+   * e.g. to look up the earlier tasks of a conversation
+   * @param query - Optional task query without the contextId, e.g. `{ state: "completed", limit: 10 }`
+   * @returns A page of tasks, or undefined if the task store can not list tasks
+   * @throws Error if the query cursor or time range is invalid
+   */
+  public async listContextTasks(
+    query: Omit<TaskQuery, "contextId"> = {}
+  ): Promise<StoreQueryResult<Task> | undefined> {
+    return this._listTasks?.({ ...query, contextId: this.id });
+  }
+
+  /**
+   * Checks if an output MIME type is one of the output modes accepted by the client.
+   * All MIME types are accepted if the client did not specify output modes, the output modes of
+   * the agent card are only used to reject requests the agent can not respond to.
+   * @param mimeType - The MIME type to check
+   * @returns true if the MIME type is accepted
+   */
+  public acceptsOutputMode(mimeType: string): boolean {
+    const modes = this.acceptedOutputModes;
+    return !modes?.length || isMimeTypeAccepted(mimeType, modes);
+  }
+
+  /**
+   * Removes the parts of an artifact whose MIME type is not accepted, see `acceptsOutputMode`.
+   * The artifacts of task updates and streamed artifacts are filtered with it, so parts in other
+   * MIME types are silently dropped: they are neither sent to the client nor stored in the task.
+   * Check `acceptsOutputMode` before producing a part to respond in an accepted mode instead.
+   * @param artifact - The artifact to filter
+   * @returns The artifact with the accepted parts or undefined if none of its parts is accepted
+   */
+  public filterArtifact(artifact: Artifact): Artifact | undefined {
+    const parts = artifact.parts.filter((part) =>
+      this.acceptsOutputMode(getPartMimeType(part))
+    );
+    if (!parts.length) {
+      return undefined;
+    }
+    return parts.length === artifact.parts.length
+      ? artifact
+      : { ...artifact, parts };
+  }
+
   /**
    * Creates a message in this context, automatically setting contextId
    * @param messageParams - Message content and metadata
@@ -140,6 +220,26 @@ class AgentExecutionContext {
     return [...(existing || []), ...(newArtifacts || [])];
   }
 
+  /**
+   * Appends messages to the task history, skipping messages already recorded
+   * @param existing - Current history array
+   * @param messages - Messages to append
+   * @returns Combined history array
+   * @private
+   */
+  private _mergeHistory(
+    existing: Message[] = [],
+    messages: Message[] = []
+  ): Message[] {
+    const history = [...existing];
+    for (const message of messages) {
+      if (!history.some((m) => m.messageId === message.messageId)) {
+        history.push(message);
+      }
+    }
+    return history;
+  }
+
   /**
    * Creates a new task or updates the current task with new parameters
    * @param taskParams - Task parameters including artifacts and metadata
@@ -155,9 +255,12 @@ class AgentExecutionContext {
   ): Task {
     let currentTask = this.currentTask;
     let id = currentTask?.id || taskId || uuidv4();
+    // drop the artifacts the client does not accept
     let artifacts = this._mergeArtifacts(
       currentTask?.artifacts || [],
-      taskParams?.artifacts || []
+      (taskParams?.artifacts || [])
+        .map((artifact) => this.filterArtifact(artifact))
+        .filter((artifact) => artifact !== undefined)
     );
     let metadata = taskParams?.metadata || currentTask?.metadata || {};
     const statusMessage = taskParams?.message
@@ -169,11 +272,23 @@ class AgentExecutionContext {
     };
     // use the provided task message as the task status message
 
+    // record the received message and the agent status message in the task history
+    const requestMessage: Message = {
+      ...this.request.params.message,
+      taskId: id,
+      contextId: this.id,
+    };
+    let history = this._mergeHistory(currentTask?.history || [], [
+      requestMessage,
+      ...(statusMessage ? [statusMessage] : []),
+    ]);
+
     return {
       kind: "task",
       id,
       contextId: this.id,
       artifacts,
+      history,
       status,
       metadata,
     };
@@ -198,6 +313,7 @@ class AgentExecutionContext {
 
   /**
    * Initiates a streaming response with callback execution
+   * If the callback throws, the task is failed with the error message and the stream is terminated.
    * @param cb - Callback function to handle the task stream
    * @param taskId - Optional task ID
    * @param initialTaskState - Initial state for the task (default: "submitted")
@@ -212,8 +328,35 @@ class AgentExecutionContext {
     // set the task to submitted
     let currentTask = this.setOrUpdateTask(null, initialTaskState, taskId);
     let taskStream = new AgentTaskStream(this);
+    // fail the task if the callback throws, so the stream subscribers are notified
+    const onError = async (error: unknown) => {
+      // writing to a canceled stream fails since the stream is closed, ignore it
+      if (this.signal.aborted) {
+        return;
+      }
+      try {
+        await taskStream.fail({
+          message: {
+            parts: [
+              createTextPart(
+                error instanceof Error ? error.message : String(error)
+              ),
+            ],
+          },
+        });
+      } catch (e) {
+        // the failed status update can not be sent, e.g. the stream queue is closed
+      }
+    };
     // call the callback with the task stream to kickoff the stream async (do not await)
-    cb(taskStream);
+    try {
+      const running = cb(taskStream);
+      if (running instanceof Promise) {
+        running.catch(onError);
+      }
+    } catch (error) {
+      await onError(error);
+    }
     return { kind: "stream", taskStream, currentTask };
   }
 
@@ -36,10 +36,14 @@ interface IAgentExecutor {
    * should attempt to stop the task execution gracefully and return the updated task
    * with appropriate status, or return an error if cancellation is not possible.
    * 
+   * Implementing this method is optional. By default the server fires the abort signal of
+   * the task's execution context, streams a 'canceled' status update and stores the canceled task.
+   * If implemented, the returned task is stored after any running stream of the task is canceled.
+   * 
    * @param task - The task to cancel
    * @returns Promise resolving to the updated task or an error indicating why cancellation failed
    */
-  cancel(
+  cancel?(
     task: Task
   ): Promise<Task | TaskNotFoundError | TaskNotCancelableError>;
 }
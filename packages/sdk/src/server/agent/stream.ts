@@ -6,34 +6,10 @@ import type {
 import { AgentExecutionContext } from "./context.ts";
 import type { AgentStreamEvent } from "./types.ts";
 import { isJSONRPCError, Task, TaskState } from "../../types/types.ts";
+import { isFinalTaskState, isPendingTaskState } from "../../utils/taskState.ts";
 
 const END_OF_STREAM_EVENT = "end-of-stream";
 
-/**
- * Checks if a task state is final (terminal)
- * 
- * Final states indicate that the task has completed processing and will not
- * transition to any other state. These include successful completion, failures,
- * cancellation, and rejection.
- * 
- * @param state - The task state to check
- * @returns true if the state is final, false otherwise
- */
-const isFinalTaskState = (state: TaskState) =>
-  ["completed", "failed", "canceled", "rejected"].includes(state);
-
-/**
- * Checks if a task state is pending (requires external input)
- * 
- * Pending states indicate that the task is waiting for external input
- * or authorization before it can continue processing.
- * 
- * @param state - The task state to check
- * @returns true if the state is pending, false otherwise
- */
-const isPendingTaskState = (state: TaskState) =>
-  ["input-required", "auth-required"].includes(state);
-
 /**
  * Checks if a stream event indicates the end of the stream
  * 
@@ -145,7 +121,8 @@ class AgentTaskStream {
    * 
    * This method sends artifact data to connected clients and automatically
    * sets the task state to 'working' if not already set. It supports both
-   * complete artifacts and chunked streaming.
+   * complete artifacts and chunked streaming. Parts in MIME types that are not
+   * accepted are dropped, see `AgentExecutionContext.filterArtifact`.
    * 
    * @param params - Artifact parameters
    * @param params.artifact - The artifact to stream
@@ -172,16 +149,19 @@ class AgentTaskStream {
         await this._sendTaskStatusUpdate();
       }
     }
-    // Send artifact update event
-    await this.streamQueue.enqueue({
-      kind: "artifact-update",
-      taskId: task.id,
-      contextId: this.cx.id,
-      artifact,
-      append,
-      lastChunk,
-      metadata: artifact.metadata,
-    });
+    // Send artifact update event, skipping artifacts the client does not accept
+    const acceptedArtifact = this.cx.filterArtifact(artifact);
+    if (acceptedArtifact) {
+      await this.streamQueue.enqueue({
+        kind: "artifact-update",
+        taskId: task.id,
+        contextId: this.cx.id,
+        artifact: acceptedArtifact,
+        append,
+        lastChunk,
+        metadata: acceptedArtifact.metadata,
+      });
+    }
 
     // check and terminate if the task is in a final or pending state
     this._terminateIfPendingOrFinalState();
@@ -282,6 +262,50 @@ class AgentTaskStream {
     this._terminateIfPendingOrFinalState();
   }
 
+  /**
+   * Cancels the task with the provided parameters
+   * Aborts the execution context, sets the task state to 'canceled' and terminates the stream.
+   * Does nothing if the stream is already terminated.
+   * @param taskParams - Optional task parameters, e.g. a message explaining the cancellation
+   */
+  public async cancel(taskParams: AgentTaskParams = {}) {
+    await this._abortWithState("canceled", taskParams);
+  }
+
+  /**
+   * Fails the task with the provided parameters
+   * Aborts the execution context, sets the task state to 'failed' and terminates the stream.
+   * Does nothing if the stream is already terminated.
+   * @param taskParams - Optional task parameters, e.g. a message explaining the failure
+   */
+  public async fail(taskParams: AgentTaskParams = {}) {
+    await this._abortWithState("failed", taskParams);
+  }
+
+  /**
+   * Aborts the execution context and ends the task in the given final state
+   * @param state - The final task state
+   * @param taskParams - Task parameters for the final status
+   * @private
+   */
+  private async _abortWithState(
+    state: "canceled" | "failed",
+    taskParams: AgentTaskParams
+  ) {
+    if (this.closed) {
+      return;
+    }
+    // close the stream first so further writes of the running executor are rejected
+    this.closed = true;
+    this.cx.setOrUpdateTask(taskParams, state);
+    this.cx.abort();
+    // send the status update
+    await this._sendTaskStatusUpdate();
+
+    // terminate the stream since the state is final
+    this._terminateIfPendingOrFinalState();
+  }
+
   /**
    * Completes the task with the provided parameters
    * Sets the task state to 'completed' and terminates the stream
@@ -299,4 +323,4 @@ class AgentTaskStream {
   }
 }
 
-export { isFinalTaskState, isPendingTaskState, isEndOfStream, AgentTaskStream };
+export { isEndOfStream, AgentTaskStream };
@@ -7,10 +7,17 @@ import type {
   A2AError,
   SendStreamingMessageSuccessResponse,
   JSONRPCError,
+  PushNotificationConfig,
 } from "../../types/types.ts";
 import { AgentTaskStream } from "./stream.ts";
 import type { IQueue } from "../providers/queue/queue.ts";
-import type { IStore } from "../providers/storage/index.ts";
+import type {
+  IStore,
+  ITaskStore,
+  TaskQuery,
+  StoreQueryResult,
+} from "../providers/storage/index.ts";
+import type { Principal } from "../authentication/authenticators.ts";
 
 /** Result type representing a completed task */
 export type TaskResult = Task;
@@ -50,7 +57,7 @@ export type AgentExecutionResult =
 export type AgentRequest = {
   /** The message parameters from the client */
   params: MessageSendParams;
-  /** Optional extension data passed with the request */
+  /** Optional extension data passed with the request, e.g. the authenticated `principal` */
   extension?: Record<string, any>;
 };
 
@@ -85,8 +92,20 @@ export type AgentStreamQueue = IQueue<AgentStreamEvent>;
 /** Factory type for creating new IQueue instances */
 export type StreamQueueFactory = () => AgentStreamQueue;
 
-/** Factory type for creating new IStore instances */
-export type TaskStoreFactory = () => IStore<Task>;
+/** Factory type for creating new IStore instances for tasks. Stores implementing ITaskStore serve task queries */
+export type TaskStoreFactory = () => IStore<Task> | ITaskStore;
+
+/** Lists the stored tasks matching a query that the caller may access, undefined if the task store can not list tasks */
+export type TaskLister = (
+  query: TaskQuery
+) => Promise<StoreQueryResult<Task> | undefined>;
+
+/** Factory type for creating new IStore instances for push notification configs, keyed by task ID */
+export type PushNotificationConfigStoreFactory =
+  () => IStore<PushNotificationConfig>;
+
+/** Factory type for creating new IStore instances for the principals owning the tasks, keyed by task ID */
+export type TaskOwnerStoreFactory = () => IStore<Principal>;
 
 /**
  * Parameters for creating agent messages
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { AgentCard } from "../../types/types.ts";
+import { AgentCardAuthenticator } from "./agentCardAuthenticator.ts";
+import type { IAuthenticator } from "./authenticators.ts";
+
+const agentCard = (card: Partial<AgentCard>): AgentCard => ({
+  name: "Test agent",
+  description: "Agent used in tests",
+  url: "https://agent.example/a2a",
+  version: "1.0.0",
+  defaultInputModes: ["text/plain"],
+  defaultOutputModes: ["text/plain"],
+  skills: [],
+  ...card,
+});
+
+const securitySchemes = {
+  key: { type: "apiKey", in: "header", name: "X-API-Key" },
+  bearer: { type: "http", scheme: "bearer" },
+  basic: { type: "http", scheme: "Basic" },
+  oauth: { type: "oauth2", flows: {} },
+};
+
+const options = {
+  verifyApiKey: (key: string) =>
+    key === "key" ? { id: "key-user" } : undefined,
+  verifyBearerToken: (token: string, schemeName: string) =>
+    token === "token" ? { id: `${schemeName}-user` } : undefined,
+  verifyBasicCredentials: (username: string, password: string) =>
+    password === "password" ? { id: username } : undefined,
+};
+
+const request = (headers: Record<string, string>) =>
+  new Request("https://agent.example/a2a", { method: "POST", headers });
+
+describe("AgentCardAuthenticator", () => {
+  it("accepts any declared scheme if the card has no requirements", async () => {
+    const authenticator = new AgentCardAuthenticator(
+      agentCard({ securitySchemes }),
+      options
+    );
+
+    expect(authenticator.required).toBe(true);
+    expect(
+      await authenticator.authenticate(request({ "X-API-Key": "key" }))
+    ).toEqual({
+      id: "key-user",
+      scheme: "key",
+    });
+    expect(
+      await authenticator.authenticate(
+        request({
+          Authorization: `Basic ${Buffer.from("alice:password").toString("base64")}`,
+        })
+      )
+    ).toEqual({ id: "alice", scheme: "basic" });
+    expect(await authenticator.authenticate(request({}))).toBeUndefined();
+  });
+
+  it("requires all schemes of a requirement", async () => {
+    const authenticator = new AgentCardAuthenticator(
+      agentCard({ securitySchemes, security: [{ bearer: [], key: [] }] }),
+      options
+    );
+
+    expect(
+      await authenticator.authenticate(
+        request({ Authorization: "Bearer token" })
+      )
+    ).toBeUndefined();
+    expect(
+      await authenticator.authenticate(
+        request({ Authorization: "Bearer token", "X-API-Key": "key" })
+      )
+    ).toEqual({ id: "bearer-user", scheme: "bearer" });
+  });
+
+  it("is not required if a requirement is empty", async () => {
+    const authenticator = new AgentCardAuthenticator(
+      agentCard({ securitySchemes, security: [{}, { key: [] }] }),
+      options
+    );
+
+    expect(authenticator.required).toBe(false);
+    expect(
+      await authenticator.authenticate(request({ "X-API-Key": "key" }))
+    ).toEqual({
+      id: "key-user",
+      scheme: "key",
+    });
+  });
+
+  it("is not required without security schemes", () => {
+    expect(new AgentCardAuthenticator(agentCard({}), {}).required).toBe(false);
+  });
+
+  it("sends bearer tokens of oauth2 schemes to the bearer verifier", async () => {
+    const authenticator = new AgentCardAuthenticator(
+      agentCard({ securitySchemes, security: [{ oauth: ["read"] }] }),
+      options
+    );
+
+    expect(
+      await authenticator.authenticate(
+        request({ Authorization: "Bearer token" })
+      )
+    ).toEqual({ id: "oauth-user", scheme: "oauth" });
+  });
+
+  it("rejects requests whose verifier or authenticator throws", async () => {
+    const throwingAuthenticator: IAuthenticator = {
+      challenge: "Custom",
+      authenticate: async () => {
+        throw new Error("authentication backend is down");
+      },
+    };
+    const authenticator = new AgentCardAuthenticator(
+      agentCard({
+        securitySchemes: {
+          key: securitySchemes.key,
+          custom: { type: "http", scheme: "custom" },
+        },
+      }),
+      {
+        verifyApiKey: () => {
+          throw new Error("database is down");
+        },
+        authenticators: { custom: throwingAuthenticator },
+      }
+    );
+
+    expect(
+      await authenticator.authenticate(request({ "X-API-Key": "key" }))
+    ).toBeUndefined();
+  });
+
+  it("collects the challenges of the declared schemes", () => {
+    const authenticator = new AgentCardAuthenticator(
+      agentCard({
+        securitySchemes: {
+          bearer: securitySchemes.bearer,
+          oauth: securitySchemes.oauth,
+        },
+      }),
+      { ...options, realm: "agents" }
+    );
+
+    expect(authenticator.challenges).toEqual(['Bearer realm="agents"']);
+  });
+
+  it("throws on schemes without a verifier or undeclared requirements", () => {
+    expect(
+      () => new AgentCardAuthenticator(agentCard({ securitySchemes }), {})
+    ).toThrow(
+      "Security scheme key requires the verifyApiKey authentication option"
+    );
+    expect(
+      () =>
+        new AgentCardAuthenticator(
+          agentCard({
+            securitySchemes: { digest: { type: "http", scheme: "digest" } },
+          }),
+          options
+        )
+    ).toThrow(
+      "Unsupported HTTP authentication scheme digest of security scheme digest"
+    );
+    expect(
+      () =>
+        new AgentCardAuthenticator(
+          agentCard({ securitySchemes, security: [{ missing: [] }] }),
+          options
+        )
+    ).toThrow("Security scheme missing is not declared");
+  });
+});
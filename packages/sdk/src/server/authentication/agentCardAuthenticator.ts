@@ -0,0 +1,200 @@
+import { SecuritySchemeSchema, type AgentCard } from "../../types/types.ts";
+import {
+  ApiKeyAuthenticator,
+  BasicAuthenticator,
+  BearerAuthenticator,
+  type IAuthenticator,
+  type Principal,
+  type VerifierResult,
+} from "./authenticators.ts";
+
+/**
+ * Options for authenticating requests against the security schemes of an agent card.
+ * Each security scheme declared by the card needs a verifier for its type, or a custom authenticator.
+ */
+type AuthenticationOptions = {
+  /** Verifies the API keys of `apiKey` security schemes */
+  verifyApiKey?: (key: string, schemeName: string) => VerifierResult;
+  /** Verifies the tokens of `http` bearer, `oauth2` and `openIdConnect` security schemes, e.g. `JwtVerifier.verify` */
+  verifyBearerToken?: (token: string, schemeName: string) => VerifierResult;
+  /** Verifies the credentials of `http` basic security schemes */
+  verifyBasicCredentials?: (
+    username: string,
+    password: string,
+    schemeName: string
+  ) => VerifierResult;
+  /** Custom authenticators keyed by security scheme name, used instead of the built-in ones */
+  authenticators?: Record<string, IAuthenticator>;
+  /** Realm sent in the authentication challenges (default: "a2a") */
+  realm?: string;
+};
+
+/**
+ * Creates the authenticator of a security scheme declared by an agent card
+ * @param schemeName - The name of the security scheme in the agent card
+ * @param securityScheme - The declared security scheme
+ * @param options - The authentication options
+ * @returns The authenticator of the security scheme
+ * @throws Error if the scheme is not supported or no verifier is configured for it
+ */
+function createSchemeAuthenticator(
+  schemeName: string,
+  securityScheme: unknown,
+  options: AuthenticationOptions
+): IAuthenticator {
+  const custom = options.authenticators?.[schemeName];
+  if (custom) {
+    return custom;
+  }
+  const parsed = SecuritySchemeSchema.safeParse(securityScheme);
+  if (!parsed.success) {
+    throw new Error(`Invalid security scheme ${schemeName}`);
+  }
+  const scheme = parsed.data;
+  const missingVerifier = (verifier: string) =>
+    new Error(
+      `Security scheme ${schemeName} requires the ${verifier} authentication option`
+    );
+  switch (scheme.type) {
+    case "apiKey": {
+      const verifyApiKey = options.verifyApiKey;
+      if (!verifyApiKey) throw missingVerifier("verifyApiKey");
+      return new ApiKeyAuthenticator(
+        scheme,
+        (key) => verifyApiKey(key, schemeName),
+        options.realm
+      );
+    }
+    case "http": {
+      const httpScheme = scheme.scheme.toLowerCase();
+      if (httpScheme === "basic") {
+        const verifyBasicCredentials = options.verifyBasicCredentials;
+        if (!verifyBasicCredentials)
+          throw missingVerifier("verifyBasicCredentials");
+        return new BasicAuthenticator(
+          (username, password) =>
+            verifyBasicCredentials(username, password, schemeName),
+          options.realm
+        );
+      }
+      if (httpScheme !== "bearer") {
+        throw new Error(
+          `Unsupported HTTP authentication scheme ${scheme.scheme} of security scheme ${schemeName}`
+        );
+      }
+      break;
+    }
+  }
+  // http bearer, oauth2 and openIdConnect clients send bearer tokens
+  const verifyBearerToken = options.verifyBearerToken;
+  if (!verifyBearerToken) throw missingVerifier("verifyBearerToken");
+  return new BearerAuthenticator(
+    (token) => verifyBearerToken(token, schemeName),
+    options.realm
+  );
+}
+
+/**
+ * Authenticates requests against the security requirements of an agent card.
+ *
+ * The authenticators are selected from the security schemes declared in `securitySchemes`.
+ * A request is authenticated if it satisfies one of the requirements in `security`, i.e. all schemes of the requirement
+ * authenticate it. If the card declares no requirements, authenticating with any of its schemes is enough.
+ * The principal of the first scheme of the satisfied requirement is the principal of the request.
+ */
+class AgentCardAuthenticator {
+  private readonly _authenticators = new Map<string, IAuthenticator>();
+  private readonly _requirements: string[][];
+
+  /**
+   * @param agentCard - The agent card declaring the security schemes and requirements
+   * @param options - The verifiers of the security schemes
+   * @throws Error if a declared security scheme is not supported or has no verifier
+   */
+  constructor(agentCard: AgentCard, options: AuthenticationOptions) {
+    for (const [schemeName, securityScheme] of Object.entries(
+      agentCard.securitySchemes ?? {}
+    )) {
+      this._authenticators.set(
+        schemeName,
+        createSchemeAuthenticator(schemeName, securityScheme, options)
+      );
+    }
+    this._requirements = agentCard.security?.length
+      ? agentCard.security.map((requirement) => Object.keys(requirement))
+      : [...this._authenticators.keys()].map((schemeName) => [schemeName]);
+    for (const schemeName of this._requirements.flat()) {
+      if (!this._authenticators.has(schemeName)) {
+        throw new Error(`Security scheme ${schemeName} is not declared`);
+      }
+    }
+  }
+
+  /**
+   * Whether requests must be authenticated. False if the card declares no security schemes
+   * or an empty security requirement allowing anonymous requests.
+   */
+  public get required(): boolean {
+    return (
+      this._requirements.length > 0 &&
+      this._requirements.every((requirement) => requirement.length > 0)
+    );
+  }
+
+  /**
+   * The `WWW-Authenticate` challenges of the declared security schemes
+   */
+  public get challenges(): string[] {
+    return [
+      ...new Set(
+        [...this._authenticators.values()].map(
+          (authenticator) => authenticator.challenge
+        )
+      ),
+    ];
+  }
+
+  /**
+   * Authenticates a request with a security scheme.
+   * A verifier or custom authenticator that throws does not authenticate the request, so it is rejected as unauthenticated
+   * @param schemeName - The name of the security scheme
+   * @param request - The received request
+   * @returns The principal of the request, or undefined if the scheme does not authenticate it
+   * @private
+   */
+  private async _authenticateScheme(
+    schemeName: string,
+    request: Request
+  ): Promise<Principal | undefined> {
+    try {
+      return await this._authenticators.get(schemeName)!.authenticate(request);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Authenticates a request
+   * @param request - The received request
+   * @returns The principal of the request, or undefined if it satisfies none of the security requirements
+   */
+  public async authenticate(request: Request): Promise<Principal | undefined> {
+    for (const requirement of this._requirements) {
+      if (requirement.length === 0) {
+        continue;
+      }
+      const principals = await Promise.all(
+        requirement.map((schemeName) =>
+          this._authenticateScheme(schemeName, request)
+        )
+      );
+      if (principals.every((principal) => principal !== undefined)) {
+        return { scheme: requirement[0], ...principals[0]! };
+      }
+    }
+    return undefined;
+  }
+}
+
+export type { AuthenticationOptions };
+export { AgentCardAuthenticator };
@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ApiKeyAuthenticator,
+  BasicAuthenticator,
+  BearerAuthenticator,
+  getAuthorizationCredentials,
+} from "./authenticators.ts";
+
+const request = (
+  headers: Record<string, string> = {},
+  url = "https://agent.example/a2a"
+) => new Request(url, { method: "POST", headers });
+
+const basic = (credentials: string) =>
+  `Basic ${Buffer.from(credentials).toString("base64")}`;
+
+describe("getAuthorizationCredentials", () => {
+  it("matches the scheme case-insensitively", () => {
+    expect(
+      getAuthorizationCredentials(
+        request({ Authorization: "bearer abc" }),
+        "Bearer"
+      )
+    ).toBe("abc");
+  });
+
+  it("ignores other schemes and missing credentials", () => {
+    expect(
+      getAuthorizationCredentials(
+        request({ Authorization: "Basic abc" }),
+        "Bearer"
+      )
+    ).toBeUndefined();
+    expect(
+      getAuthorizationCredentials(
+        request({ Authorization: "Bearer" }),
+        "Bearer"
+      )
+    ).toBeUndefined();
+    expect(getAuthorizationCredentials(request(), "Bearer")).toBeUndefined();
+  });
+});
+
+describe("ApiKeyAuthenticator", () => {
+  const verifyKey = (key: string) =>
+    key === "secret" ? { id: "alice" } : undefined;
+
+  it("reads the key from a header", async () => {
+    const authenticator = new ApiKeyAuthenticator(
+      { type: "apiKey", in: "header", name: "X-API-Key" },
+      verifyKey
+    );
+    expect(
+      await authenticator.authenticate(request({ "X-API-Key": "secret" }))
+    ).toEqual({
+      id: "alice",
+    });
+    expect(
+      await authenticator.authenticate(request({ "X-API-Key": "wrong" }))
+    ).toBeUndefined();
+    expect(authenticator.challenge).toBe(
+      'ApiKey realm="a2a", in="header", name="X-API-Key"'
+    );
+  });
+
+  it("reads the key from a query parameter", async () => {
+    const authenticator = new ApiKeyAuthenticator(
+      { type: "apiKey", in: "query", name: "key" },
+      verifyKey
+    );
+    expect(
+      await authenticator.authenticate(
+        request({}, "https://agent.example/a2a?key=secret")
+      )
+    ).toEqual({ id: "alice" });
+  });
+
+  it("reads the key from a cookie", async () => {
+    const authenticator = new ApiKeyAuthenticator(
+      { type: "apiKey", in: "cookie", name: "key" },
+      verifyKey
+    );
+    expect(
+      await authenticator.authenticate(
+        request({ Cookie: "theme=dark; key=secret" })
+      )
+    ).toEqual({ id: "alice" });
+    expect(
+      await authenticator.authenticate(request({ Cookie: "key=%E0%A4%A" }))
+    ).toBeUndefined();
+  });
+
+  it("does not call the verifier without a key", async () => {
+    const verify = vi.fn(verifyKey);
+    const authenticator = new ApiKeyAuthenticator(
+      { type: "apiKey", in: "header", name: "X-API-Key" },
+      verify
+    );
+    expect(await authenticator.authenticate(request())).toBeUndefined();
+    expect(verify).not.toHaveBeenCalled();
+  });
+});
+
+describe("BearerAuthenticator", () => {
+  it("verifies the bearer token", async () => {
+    const verify = vi.fn(async (token: string) =>
+      token === "token" ? { id: "alice" } : undefined
+    );
+    const authenticator = new BearerAuthenticator(verify, "agents");
+
+    expect(
+      await authenticator.authenticate(
+        request({ Authorization: "Bearer token" })
+      )
+    ).toEqual({ id: "alice" });
+    expect(
+      await authenticator.authenticate(
+        request({ Authorization: "Bearer other" })
+      )
+    ).toBeUndefined();
+    expect(
+      await authenticator.authenticate(request({ Authorization: basic("a:b") }))
+    ).toBeUndefined();
+    expect(verify).toHaveBeenCalledTimes(2);
+    expect(authenticator.challenge).toBe('Bearer realm="agents"');
+  });
+});
+
+describe("BasicAuthenticator", () => {
+  const verifyCredentials = vi.fn((username: string, password: string) =>
+    username === "alice" && password === "pa:ss wörd"
+      ? { id: username }
+      : undefined
+  );
+  const authenticator = new BasicAuthenticator(verifyCredentials);
+
+  it("splits the credentials at the first colon and decodes UTF-8", async () => {
+    expect(
+      await authenticator.authenticate(
+        request({ Authorization: basic("alice:pa:ss wörd") })
+      )
+    ).toEqual({ id: "alice" });
+    expect(verifyCredentials).toHaveBeenLastCalledWith("alice", "pa:ss wörd");
+  });
+
+  it("rejects invalid credentials", async () => {
+    expect(
+      await authenticator.authenticate(
+        request({ Authorization: basic("alice:wrong") })
+      )
+    ).toBeUndefined();
+  });
+
+  it("rejects malformed credentials without calling the verifier", async () => {
+    verifyCredentials.mockClear();
+    for (const authorization of ["Basic !!!", basic("no-colon"), "Bearer x"]) {
+      expect(
+        await authenticator.authenticate(
+          request({ Authorization: authorization })
+        )
+      ).toBeUndefined();
+    }
+    expect(verifyCredentials).not.toHaveBeenCalled();
+  });
+});
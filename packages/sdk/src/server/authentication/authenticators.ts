@@ -0,0 +1,199 @@
+import type { APIKeySecurityScheme } from "../../types/types.ts";
+
+/**
+ * The authenticated caller of a request, passed to executors as `AgentRequest.extension.principal`
+ */
+type Principal = {
+  /** ID of the caller, e.g. the user ID or the `sub` claim of a token */
+  id: string;
+  /** Name of the security scheme of the agent card the caller authenticated with */
+  scheme?: string;
+  /** Optional additional data about the caller, e.g. the claims of a token */
+  claims?: Record<string, any>;
+};
+
+/**
+ * Result of a credentials verifier: the principal of valid credentials, or undefined if the credentials are invalid
+ */
+type VerifierResult = Promise<Principal | undefined> | Principal | undefined;
+
+/**
+ * Interface for authenticating HTTP requests
+ */
+interface IAuthenticator {
+  /**
+   * Authenticates a request
+   * @param request - The received request
+   * @returns The principal of the request, or undefined if the request carries no valid credentials
+   */
+  authenticate(request: Request): Promise<Principal | undefined>;
+  /** Value of the `WWW-Authenticate` header sent when a request is rejected */
+  readonly challenge: string;
+}
+
+/**
+ * Gets the credentials of an `Authorization` header for an authentication scheme
+ * @param request - The received request
+ * @param scheme - The authentication scheme, e.g. `Bearer`. Matched case-insensitively
+ * @returns The credentials following the scheme, or undefined if the header is missing or uses another scheme
+ */
+function getAuthorizationCredentials(
+  request: Request,
+  scheme: string
+): string | undefined {
+  const authorization = request.headers.get("Authorization");
+  if (!authorization) {
+    return undefined;
+  }
+  const separator = authorization.indexOf(" ");
+  if (
+    separator === -1 ||
+    authorization.slice(0, separator).toLowerCase() !== scheme.toLowerCase()
+  ) {
+    return undefined;
+  }
+  return authorization.slice(separator + 1).trim() || undefined;
+}
+
+/**
+ * Gets the value of a cookie of a request
+ * @param request - The received request
+ * @param name - The name of the cookie
+ * @returns The decoded cookie value, or undefined if the cookie is not set
+ */
+function getCookie(request: Request, name: string): string | undefined {
+  const cookies = request.headers.get("Cookie")?.split(";") ?? [];
+  for (const cookie of cookies) {
+    const separator = cookie.indexOf("=");
+    if (separator !== -1 && cookie.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(cookie.slice(separator + 1).trim());
+      } catch (e) {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Authenticates requests with an API key sent in a header, query parameter or cookie,
+ * as declared by an `apiKey` security scheme
+ */
+class ApiKeyAuthenticator implements IAuthenticator {
+  private readonly _scheme: APIKeySecurityScheme;
+  private readonly _verifyKey: (key: string) => VerifierResult;
+  public readonly challenge: string;
+
+  /**
+   * @param scheme - The API key security scheme declaring where the key is sent
+   * @param verifyKey - Verifies an API key and resolves the principal it belongs to
+   * @param realm - Realm sent in the authentication challenge (default: "a2a")
+   */
+  constructor(
+    scheme: APIKeySecurityScheme,
+    verifyKey: (key: string) => VerifierResult,
+    realm: string = "a2a"
+  ) {
+    this._scheme = scheme;
+    this._verifyKey = verifyKey;
+    this.challenge = `ApiKey realm="${realm}", in="${scheme.in}", name="${scheme.name}"`;
+  }
+
+  public async authenticate(request: Request): Promise<Principal | undefined> {
+    let key: string | null | undefined;
+    switch (this._scheme.in) {
+      case "header":
+        key = request.headers.get(this._scheme.name);
+        break;
+      case "query":
+        key = new URL(request.url).searchParams.get(this._scheme.name);
+        break;
+      case "cookie":
+        key = getCookie(request, this._scheme.name);
+        break;
+    }
+    return key ? this._verifyKey(key) : undefined;
+  }
+}
+
+/**
+ * Authenticates requests with a token sent in an `Authorization: Bearer` header.
+ * The token is verified by a pluggable verifier, e.g. `JwtVerifier.verify`.
+ */
+class BearerAuthenticator implements IAuthenticator {
+  private readonly _verifyToken: (token: string) => VerifierResult;
+  public readonly challenge: string;
+
+  /**
+   * @param verifyToken - Verifies a bearer token and resolves the principal it was issued to
+   * @param realm - Realm sent in the authentication challenge (default: "a2a")
+   */
+  constructor(
+    verifyToken: (token: string) => VerifierResult,
+    realm: string = "a2a"
+  ) {
+    this._verifyToken = verifyToken;
+    this.challenge = `Bearer realm="${realm}"`;
+  }
+
+  public async authenticate(request: Request): Promise<Principal | undefined> {
+    const token = getAuthorizationCredentials(request, "Bearer");
+    return token ? this._verifyToken(token) : undefined;
+  }
+}
+
+/**
+ * Authenticates requests with a username and password sent in an `Authorization: Basic` header
+ */
+class BasicAuthenticator implements IAuthenticator {
+  private readonly _verifyCredentials: (
+    username: string,
+    password: string
+  ) => VerifierResult;
+  public readonly challenge: string;
+
+  /**
+   * @param verifyCredentials - Verifies a username and password and resolves the principal they belong to
+   * @param realm - Realm sent in the authentication challenge (default: "a2a")
+   */
+  constructor(
+    verifyCredentials: (username: string, password: string) => VerifierResult,
+    realm: string = "a2a"
+  ) {
+    this._verifyCredentials = verifyCredentials;
+    this.challenge = `Basic realm="${realm}", charset="UTF-8"`;
+  }
+
+  public async authenticate(request: Request): Promise<Principal | undefined> {
+    const encoded = getAuthorizationCredentials(request, "Basic");
+    if (!encoded) {
+      return undefined;
+    }
+    let decoded: string;
+    try {
+      const binary = atob(encoded);
+      decoded = new TextDecoder().decode(
+        Uint8Array.from(binary, (char) => char.charCodeAt(0))
+      );
+    } catch (e) {
+      return undefined;
+    }
+    const separator = decoded.indexOf(":");
+    if (separator === -1) {
+      return undefined;
+    }
+    return this._verifyCredentials(
+      decoded.slice(0, separator),
+      decoded.slice(separator + 1)
+    );
+  }
+}
+
+export type { Principal, VerifierResult, IAuthenticator };
+export {
+  getAuthorizationCredentials,
+  ApiKeyAuthenticator,
+  BearerAuthenticator,
+  BasicAuthenticator,
+};
@@ -0,0 +1,180 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  generateJwtKeyPair,
+  signJwt,
+  type IdentifiedJsonWebKey,
+} from "../../utils/jwt.ts";
+import { JwtVerifier } from "./jwtVerifier.ts";
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("JwtVerifier", () => {
+  let keyPair: CryptoKeyPair;
+  let jwk: IdentifiedJsonWebKey;
+
+  const sign = (payload: Record<string, any>, kid = "key-1") =>
+    signJwt(payload, keyPair.privateKey, "ES256", kid);
+
+  beforeAll(async () => {
+    keyPair = await generateJwtKeyPair("ES256");
+    jwk = {
+      ...(await crypto.subtle.exportKey("jwk", keyPair.publicKey)),
+      kid: "key-1",
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("requires keys or a JWKS URL", () => {
+    expect(() => new JwtVerifier({})).toThrow(
+      "Either jwksUrl or keys must be set"
+    );
+  });
+
+  it("returns the subject and claims of a valid token", async () => {
+    const verifier = new JwtVerifier({ keys: [jwk] });
+    const payload = { sub: "alice", exp: now() + 60, scope: "read" };
+
+    expect(await verifier.verify(await sign(payload))).toEqual({
+      id: "alice",
+      claims: payload,
+    });
+  });
+
+  it("rejects tokens without a subject", async () => {
+    const verifier = new JwtVerifier({ keys: [jwk] });
+    expect(
+      await verifier.verify(await sign({ exp: now() + 60 }))
+    ).toBeUndefined();
+  });
+
+  it("requires an expiration unless disabled", async () => {
+    const token = await sign({ sub: "alice" });
+
+    expect(
+      await new JwtVerifier({ keys: [jwk] }).verify(token)
+    ).toBeUndefined();
+    expect(
+      await new JwtVerifier({ keys: [jwk], requireExpiration: false }).verify(
+        token
+      )
+    ).toMatchObject({ id: "alice" });
+  });
+
+  it("rejects expired and not yet valid tokens beyond the clock tolerance", async () => {
+    const verifier = new JwtVerifier({
+      keys: [jwk],
+      clockToleranceSeconds: 30,
+    });
+
+    expect(
+      await verifier.verify(await sign({ sub: "alice", exp: now() - 10 }))
+    ).toMatchObject({ id: "alice" });
+    expect(
+      await verifier.verify(await sign({ sub: "alice", exp: now() - 60 }))
+    ).toBeUndefined();
+    expect(
+      await verifier.verify(
+        await sign({ sub: "alice", exp: now() + 600, nbf: now() + 60 })
+      )
+    ).toBeUndefined();
+  });
+
+  it("checks the issuer and audience", async () => {
+    const verifier = new JwtVerifier({
+      keys: [jwk],
+      issuer: "https://auth.example",
+      audience: "https://agent.example",
+    });
+    const claims = {
+      sub: "alice",
+      exp: now() + 60,
+      iss: "https://auth.example",
+    };
+
+    expect(
+      await verifier.verify(
+        await sign({
+          ...claims,
+          aud: ["https://other.example", "https://agent.example"],
+        })
+      )
+    ).toMatchObject({ id: "alice" });
+    expect(
+      await verifier.verify(
+        await sign({ ...claims, aud: "https://other.example" })
+      )
+    ).toBeUndefined();
+    expect(
+      await verifier.verify(
+        await sign({
+          ...claims,
+          iss: "https://evil.example",
+          aud: "https://agent.example",
+        })
+      )
+    ).toBeUndefined();
+  });
+
+  it("rejects tokens of unknown keys, other algorithms and forged signatures", async () => {
+    const verifier = new JwtVerifier({ keys: [{ ...jwk, alg: "ES256" }] });
+    const payload = { sub: "alice", exp: now() + 60 };
+    const otherKeyPair = await generateJwtKeyPair("ES256");
+    const rsaKeyPair = await generateJwtKeyPair("RS256");
+
+    expect(await verifier.verify(await sign(payload, "key-2"))).toBeUndefined();
+    expect(
+      await verifier.verify(
+        await signJwt(payload, otherKeyPair.privateKey, "ES256", "key-1")
+      )
+    ).toBeUndefined();
+    expect(
+      await verifier.verify(
+        await signJwt(payload, rsaKeyPair.privateKey, "RS256", "key-1")
+      )
+    ).toBeUndefined();
+  });
+
+  it("rejects malformed tokens and headers", async () => {
+    const verifier = new JwtVerifier({ keys: [jwk] });
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    expect(await verifier.verify("not-a-jwt")).toBeUndefined();
+    expect(
+      await verifier.verify(`${encode(null)}.${encode({ sub: "alice" })}.`)
+    ).toBeUndefined();
+    expect(
+      await verifier.verify(
+        `${encode({ alg: "none" })}.${encode({ sub: "alice" })}.`
+      )
+    ).toBeUndefined();
+  });
+
+  it("verifies tokens with the keys of a JWKS endpoint", async () => {
+    const fetchMock = vi.fn(async () => Response.json({ keys: [jwk] }));
+    vi.stubGlobal("fetch", fetchMock);
+    const verifier = new JwtVerifier({ jwksUrl: "https://auth.example/jwks" });
+    const token = await sign({ sub: "alice", exp: now() + 60 });
+
+    expect(await verifier.verify(token)).toMatchObject({ id: "alice" });
+    expect(await verifier.verify(token)).toMatchObject({ id: "alice" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects tokens if the JWKS endpoint fails", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("fetch failed");
+      })
+    );
+    const verifier = new JwtVerifier({ jwksUrl: "https://auth.example/jwks" });
+
+    expect(
+      await verifier.verify(await sign({ sub: "alice", exp: now() + 60 }))
+    ).toBeUndefined();
+  });
+});
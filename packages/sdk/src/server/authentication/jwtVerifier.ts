@@ -0,0 +1,153 @@
+import {
+  decodeJwt,
+  importJwtPublicKey,
+  isJwtAlgorithm,
+  jwkAllowsAlgorithm,
+  JwksCache,
+  verifyJwtSignature,
+  type IdentifiedJsonWebKey,
+} from "../../utils/jwt.ts";
+import type { Principal } from "./authenticators.ts";
+
+/**
+ * Options for creating a JWT verifier. Either `jwksUrl` or `keys` must be set
+ */
+type JwtVerifierOptions = {
+  /** URL of the token issuer's JWKS endpoint */
+  jwksUrl?: string;
+  /** Static public keys to verify tokens with, used instead of fetching them from `jwksUrl` */
+  keys?: IdentifiedJsonWebKey[];
+  /** Optional expected `iss` claim */
+  issuer?: string;
+  /** Optional expected `aud` claim, e.g. the URL of the agent */
+  audience?: string;
+  /** Tolerated clock difference between the issuer and the agent in seconds (default: 30) */
+  clockToleranceSeconds?: number;
+  /** How long fetched keys are cached in seconds (default: 3600) */
+  jwksCacheTtlSeconds?: number;
+  /** Minimum time in seconds between two JWKS fetches, also for unknown key IDs (default: 30) */
+  jwksMinRefreshIntervalSeconds?: number;
+  /** Whether tokens without an `exp` claim are rejected (default: true) */
+  requireExpiration?: boolean;
+};
+
+/**
+ * Verifies JWT bearer tokens against the public keys of their issuer.
+ *
+ * A token is accepted if:
+ * - its signature is valid for a key of the issuer, that declares no algorithm or the token's one,
+ * - it is not expired (`exp`, required unless `requireExpiration` is false) and already valid (`nbf`),
+ * - its `iss` and `aud` claims match the configured issuer and audience, if set.
+ *
+ * The principal of an accepted token has the `sub` claim as ID and all claims of the token.
+ * `verify` can be passed to a `BearerAuthenticator` or as `verifyBearerToken` authentication option.
+ */
+class JwtVerifier {
+  private readonly _keys?: IdentifiedJsonWebKey[];
+  private readonly _jwks?: JwksCache;
+  private readonly _issuer?: string;
+  private readonly _audience?: string;
+  private readonly _clockToleranceSeconds: number;
+  private readonly _requireExpiration: boolean;
+
+  constructor({
+    jwksUrl,
+    keys,
+    issuer,
+    audience,
+    clockToleranceSeconds = 30,
+    jwksCacheTtlSeconds = 3600,
+    jwksMinRefreshIntervalSeconds = 30,
+    requireExpiration = true,
+  }: JwtVerifierOptions) {
+    if (!jwksUrl && !keys) {
+      throw new Error("Either jwksUrl or keys must be set");
+    }
+    // static keys are used instead of fetching them
+    this._keys = keys;
+    this._jwks =
+      !keys && jwksUrl
+        ? new JwksCache({
+            jwksUrl,
+            cacheTtlSeconds: jwksCacheTtlSeconds,
+            minRefreshIntervalSeconds: jwksMinRefreshIntervalSeconds,
+          })
+        : undefined;
+    this._issuer = issuer;
+    this._audience = audience;
+    this._clockToleranceSeconds = clockToleranceSeconds;
+    this._requireExpiration = requireExpiration;
+  }
+
+  /**
+   * Finds the public key for a key ID in the static keys or the issuer's JWKS
+   * @private
+   */
+  private async _findKey(
+    kid?: string
+  ): Promise<IdentifiedJsonWebKey | undefined> {
+    if (this._keys) {
+      return this._keys.find((key) => kid === undefined || key.kid === kid);
+    }
+    return this._jwks?.findKey(kid);
+  }
+
+  /**
+   * Verifies a JWT bearer token
+   * @param token - The received token
+   * @returns The principal the token was issued to, or undefined if the token is invalid
+   */
+  public verify = async (token: string): Promise<Principal | undefined> => {
+    let jwt;
+    try {
+      jwt = decodeJwt(token);
+    } catch (e) {
+      return undefined;
+    }
+    // a malformed header or a key that can not be fetched or imported fails the verification like an invalid signature
+    try {
+      const alg = jwt.header.alg;
+      if (!isJwtAlgorithm(alg)) {
+        return undefined;
+      }
+      const jwk = await this._findKey(jwt.header.kid);
+      if (!jwk || !jwkAllowsAlgorithm(jwk, alg)) {
+        return undefined;
+      }
+      const publicKey = await importJwtPublicKey(jwk, alg);
+      if (!(await verifyJwtSignature(jwt, publicKey, alg))) {
+        return undefined;
+      }
+    } catch (e) {
+      return undefined;
+    }
+
+    const { exp, nbf, iss, aud, sub } = jwt.payload;
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof exp !== "number" && this._requireExpiration) {
+      return undefined;
+    }
+    if (typeof exp === "number" && now - this._clockToleranceSeconds >= exp) {
+      return undefined;
+    }
+    if (typeof nbf === "number" && now + this._clockToleranceSeconds < nbf) {
+      return undefined;
+    }
+    if (this._issuer !== undefined && iss !== this._issuer) {
+      return undefined;
+    }
+    if (
+      this._audience !== undefined &&
+      !(Array.isArray(aud) ? aud : [aud]).includes(this._audience)
+    ) {
+      return undefined;
+    }
+    if (typeof sub !== "string") {
+      return undefined;
+    }
+    return { id: sub, claims: jwt.payload };
+  };
+}
+
+export type { JwtVerifierOptions };
+export { JwtVerifier };
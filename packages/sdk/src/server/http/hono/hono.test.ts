@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import type { AgentCard } from "../../../types/types.ts";
+import type { IAgentExecutor } from "../../agent/executor.ts";
+import type { AuthenticationOptions } from "../../authentication/agentCardAuthenticator.ts";
+import { A2AServer } from "../../server/server.ts";
+import { createHonoApp } from "./hono.ts";
+
+const agentCard: AgentCard = {
+  name: "Test agent",
+  description: "Agent used in tests",
+  url: "https://agent.example/a2a",
+  version: "1.0.0",
+  defaultInputModes: ["text/plain"],
+  defaultOutputModes: ["text/plain"],
+  skills: [],
+};
+
+// replies with the ID of the authenticated caller
+const agentExecutor: IAgentExecutor = {
+  execute: async (context) =>
+    context.message({
+      parts: [
+        {
+          kind: "text",
+          text: context.request.extension?.principal?.id ?? "anonymous",
+        },
+      ],
+    }),
+};
+
+const sendMessage = (id?: number | string, text = "hi") => ({
+  jsonrpc: "2.0",
+  ...(id !== undefined && { id }),
+  method: "message/send",
+  params: {
+    message: {
+      kind: "message",
+      role: "user",
+      messageId: `message-${id ?? "notification"}`,
+      parts: [{ kind: "text", text }],
+    },
+  },
+});
+
+const createApp = (
+  options: {
+    card?: Partial<AgentCard>;
+    authentication?: AuthenticationOptions;
+  } = {}
+) =>
+  createHonoApp({
+    a2aServer: new A2AServer({
+      agentCard: { ...agentCard, ...options.card },
+      agentExecutor,
+    }),
+    authentication: options.authentication,
+  });
+
+const post = (
+  app: Awaited<ReturnType<typeof createApp>>,
+  body: unknown,
+  headers: Record<string, string> = {}
+) =>
+  app.request("/a2a", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+describe("createHonoApp authentication", () => {
+  const securedCard: Partial<AgentCard> = {
+    securitySchemes: {
+      bearer: { type: "http", scheme: "bearer" },
+      key: { type: "apiKey", in: "header", name: "X-API-Key" },
+    },
+  };
+
+  it("passes the principal of authenticated requests to the agent", async () => {
+    const app = await createApp({
+      card: securedCard,
+      authentication: {
+        verifyBearerToken: (token) =>
+          token === "token" ? { id: "alice" } : undefined,
+        verifyApiKey: () => undefined,
+      },
+    });
+
+    const response = await post(app, sendMessage(1), {
+      Authorization: "Bearer token",
+    });
+    expect(response.status).toBe(200);
+    expect((await response.json()).result.parts[0].text).toBe("alice");
+  });
+
+  it("rejects unauthenticated requests with 401 and the challenges", async () => {
+    const app = await createApp({
+      card: securedCard,
+      authentication: {
+        verifyBearerToken: () => undefined,
+        verifyApiKey: () => undefined,
+      },
+    });
+
+    const response = await post(app, sendMessage(1), {
+      Authorization: "Bearer wrong",
+    });
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toBe(
+      'Bearer realm="a2a", ApiKey realm="a2a", in="header", name="X-API-Key"'
+    );
+  });
+
+  it("rejects requests with 401 if a verifier throws or the token is malformed", async () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    const app = await createApp({
+      card: securedCard,
+      authentication: {
+        verifyBearerToken: (token) => {
+          JSON.parse(token);
+          return undefined;
+        },
+        verifyApiKey: async () => {
+          throw new Error("database is down");
+        },
+      },
+    });
+
+    for (const headers of [
+      { "X-API-Key": "key" } as Record<string, string>,
+      { Authorization: `Bearer ${encode(null)}.${encode({})}.` },
+    ]) {
+      expect((await post(app, sendMessage(1), headers)).status).toBe(401);
+    }
+  });
+
+  it("serves the extended agent card only to authenticated clients", async () => {
+    const app = await createHonoApp({
+      a2aServer: new A2AServer({
+        agentCard: { ...agentCard, ...securedCard },
+        extendedAgentCard: { ...agentCard, ...securedCard, name: "Extended" },
+        agentExecutor,
+      }),
+      authentication: {
+        verifyBearerToken: (token) =>
+          token === "token" ? { id: "alice" } : undefined,
+        verifyApiKey: () => undefined,
+      },
+    });
+
+    expect((await app.request("/agent/authenticatedExtendedCard")).status).toBe(
+      401
+    );
+    const response = await app.request("/agent/authenticatedExtendedCard", {
+      headers: { Authorization: "Bearer token" },
+    });
+    expect((await response.json()).name).toBe("Extended");
+  });
+});
+
+describe("createHonoApp batches and notifications", () => {
+  it("answers a batch with the responses of its requests", async () => {
+    const app = await createApp();
+
+    const response = await post(app, [
+      sendMessage(1, "first"),
+      sendMessage(undefined),
+      sendMessage(2, "second"),
+    ]);
+    const body = await response.json();
+    expect(body.map(({ id }: { id: number }) => id)).toEqual([1, 2]);
+    expect(body[0].result.parts[0].text).toBe("anonymous");
+  });
+
+  it("answers notifications and batches of notifications with no content", async () => {
+    const app = await createApp();
+
+    expect((await post(app, sendMessage(undefined))).status).toBe(204);
+    expect(
+      (await post(app, [sendMessage(undefined), sendMessage(undefined)])).status
+    ).toBe(204);
+  });
+
+  it("answers invalid bodies with JSON-RPC errors", async () => {
+    const app = await createApp();
+
+    expect((await (await post(app, "{")).json()).error.code).toBe(-32700);
+    expect((await (await post(app, "[]")).json()).error.code).toBe(-32600);
+  });
+});
@@ -1,10 +1,27 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { A2AServer } from "../../server/server.ts";
 import { IAgentExecutor } from "../../agent/executor.ts";
 import { jsonRpcBodyParser } from "../../jsonRPC/jsonRpcBodyParser.ts";
 import { isJSONRPCError } from "../../../types/types.ts";
 import { internalError } from "../../../utils/errors.ts";
 import { streamSSE } from "hono/streaming";
+import {
+  AgentCardAuthenticator,
+  type AuthenticationOptions,
+} from "../../authentication/agentCardAuthenticator.ts";
+
+/**
+ * Rejects an unauthenticated request with the authentication challenges of the agent
+ * @param c - The Hono context of the request
+ * @param authenticator - Optional authenticator of the agent card
+ * @returns The 401 response
+ */
+function unauthorized(c: Context, authenticator?: AgentCardAuthenticator) {
+  for (const challenge of authenticator?.challenges ?? []) {
+    c.header("WWW-Authenticate", challenge, { append: true });
+  }
+  return c.text("Authentication required", 401);
+}
 
 /**
  * Creates a Hono HTTP application configured for A2A protocol communication
@@ -12,22 +29,56 @@ import { streamSSE } from "hono/streaming";
  * This function sets up the necessary HTTP endpoints for the A2A protocol:
  * - POST /a2a - Main JSON-RPC endpoint for agent communication
  * - GET /.well-known/agent.json - Agent discovery endpoint
+ * - GET /.well-known/jwks.json - Public keys to verify signed push notifications (if configured)
+ * - GET /agent/authenticatedExtendedCard - Extended agent card for authenticated clients (if configured)
  * 
  * The application handles both synchronous and streaming responses using Server-Sent Events.
+ * JSON-RPC batches of non-streaming requests are supported, and notifications (requests without an id) get no response.
+ * Every SSE event carries an `id` with its sequence number in the task's event stream, so a client
+ * resubscribing through tasks/resubscribe with the `Last-Event-ID` header receives the events it missed.
+ * The header is ignored on other methods: a message/stream request is not a reconnect, it sends a new message.
+ * When a client disconnects, the request abort signal passed to the A2A server is fired,
+ * which stops streaming to that client while the task itself keeps running.
  * 
  * @param params - Configuration object
  * @param params.a2aServer - The A2A server instance to handle requests
+ * @param params.heartbeatIntervalMs - Interval in milliseconds for sending SSE heartbeat comments that keep
+ * idle streams open through proxies (default: 15000). Set to 0 to disable heartbeats
+ * @param params.authentication - Optional verifiers of the security schemes declared by the agent card.
+ * If set, JSON-RPC requests that satisfy none of the card's security requirements are rejected with 401 and
+ * the `WWW-Authenticate` challenges of the schemes, and the principal of authenticated requests is passed
+ * to the agent as `AgentRequest.extension.principal`. The extended agent card is only served to authenticated requests
  * @returns Promise resolving to a configured Hono application instance
  */
-async function createHonoApp({ a2aServer }: { a2aServer: A2AServer }) {
+async function createHonoApp({
+  a2aServer,
+  heartbeatIntervalMs = 15000,
+  authentication,
+}: {
+  a2aServer: A2AServer;
+  heartbeatIntervalMs?: number;
+  authentication?: AuthenticationOptions;
+}) {
   const app = new Hono();
 
+  // Select the authenticators of the security schemes declared by the agent card
+  const authenticator = authentication
+    ? new AgentCardAuthenticator(a2aServer.agentCard, authentication)
+    : undefined;
+
   // Start the a2a server
   await a2aServer.start();
 
   // JSON-RPC endpoint
   app.post("/a2a", async (c) => {
     try {
+      // Authenticate the request against the security requirements of the agent card
+      const principal = await authenticator?.authenticate(c.req.raw);
+      if (authenticator?.required && !principal) {
+        return unauthorized(c, authenticator);
+      }
+      const extension = principal ? { principal } : undefined;
+
       const bodyText = await c.req.text();
       const parsed = await jsonRpcBodyParser(bodyText);
 
@@ -39,16 +90,73 @@ async function createHonoApp({ a2aServer }: { a2aServer: A2AServer }) {
           error: parsed,
         });
       }
+      // Abort the request when the client disconnects
+      const requestAbortController = new AbortController();
+      const abortRequest = () => requestAbortController.abort();
+      if (c.req.raw.signal.aborted) {
+        abortRequest();
+      } else {
+        c.req.raw.signal.addEventListener("abort", abortRequest, {
+          once: true,
+        });
+      }
+
+      // Handle batch requests, the response contains only the responses of non-notification requests
+      if (Array.isArray(parsed)) {
+        const responses = await a2aServer.handleBatchRequest(
+          parsed,
+          requestAbortController.signal,
+          extension
+        );
+        return responses.length > 0 ? c.json(responses) : c.body(null, 204);
+      }
+
+      // Resume the task stream of a resubscribing client after its last received event
+      const lastEventId = Number(c.req.header("Last-Event-ID") || NaN);
+      const requestExtension =
+        parsed.method === "tasks/resubscribe" &&
+        Number.isInteger(lastEventId) &&
+        lastEventId >= 0
+          ? { ...extension, lastEventId }
+          : extension;
+
       // Handle request
-      const result = await a2aServer.handleRequest(parsed);
+      const result = await a2aServer.handleRequest(
+        parsed,
+        requestAbortController.signal,
+        requestExtension
+      );
       if (result.response) {
         return c.json(result.response);
+      } else if (parsed.id === undefined) {
+        // notifications get no response
+        return c.body(null, 204);
       } else if (result.stream) {
         const stream = result.stream;
         // Use Hono's StreamSSE helper for SSE
         return streamSSE(c, async (sse) => {
-          for await (const jsonRpcResponse of stream) {
-            await sse.writeSSE({ data: JSON.stringify(jsonRpcResponse) });
+          // stop streaming when the SSE connection is closed by the client
+          sse.onAbort(abortRequest);
+          // keep the connection alive while the stream is idle
+          const heartbeat =
+            heartbeatIntervalMs > 0
+              ? setInterval(() => {
+                  sse.write(": heartbeat\n\n").catch(() => {});
+                }, heartbeatIntervalMs)
+              : undefined;
+          try {
+            // breaking the loop returns the stream generator and releases its tapper
+            for await (const { response, eventId } of stream) {
+              if (sse.aborted) {
+                break;
+              }
+              await sse.writeSSE({
+                data: JSON.stringify(response),
+                id: eventId,
+              });
+            }
+          } finally {
+            clearInterval(heartbeat);
           }
         });
       } else {
@@ -75,6 +183,28 @@ async function createHonoApp({ a2aServer }: { a2aServer: A2AServer }) {
     return c.json(a2aServer.agentCard);
   });
 
+  // Extended agent card handler, only served to authenticated clients
+  app.get("/agent/authenticatedExtendedCard", async (c) => {
+    const extendedAgentCard = a2aServer.extendedAgentCard;
+    if (!extendedAgentCard) {
+      return c.notFound();
+    }
+    const principal = await authenticator?.authenticate(c.req.raw);
+    if (!principal) {
+      return unauthorized(c, authenticator);
+    }
+    return c.json(extendedAgentCard);
+  });
+
+  // JWKS handler to verify signed push notifications
+  app.get("/.well-known/jwks.json", async (c) => {
+    const jwks = await a2aServer.getPushNotificationJwks();
+    if (!jwks) {
+      return c.notFound();
+    }
+    return c.json(jwks);
+  });
+
   return app;
 }
 
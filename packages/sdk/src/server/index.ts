@@ -1,23 +1,85 @@
 // export a2a server
-export { A2AServer } from "./server/server.ts";
+export {
+  type A2AServerParams,
+  type MethodHandler,
+  type TaskAccessPolicy,
+  A2AServer,
+} from "./server/server.ts";
+export type {
+  HandlerResponse,
+  StreamResponse,
+  JSONRPCMiddleware,
+  JSONRPCRequestContext,
+} from "./jsonRPC/jsonRpcServer.ts";
 
 // export http server
 export { createHonoApp } from "./http/hono/hono.ts";
 
+// export authentication
+export {
+  type Principal,
+  type VerifierResult,
+  type IAuthenticator,
+  ApiKeyAuthenticator,
+  BearerAuthenticator,
+  BasicAuthenticator,
+} from "./authentication/authenticators.ts";
+export {
+  type AuthenticationOptions,
+  AgentCardAuthenticator,
+} from "./authentication/agentCardAuthenticator.ts";
+export {
+  type JwtVerifierOptions,
+  JwtVerifier,
+} from "./authentication/jwtVerifier.ts";
+
+// export push notification sender
+export {
+  type IPushNotificationSender,
+  type PushNotificationSenderOptions,
+  PushNotificationSender,
+} from "./pushNotification/sender.ts";
+export {
+  type PushNotificationSignerOptions,
+  PushNotificationSigner,
+} from "./pushNotification/signer.ts";
+
 // export agent executor
 export { type IAgentExecutor } from "./agent/executor.ts";
 
-export {
-  type AgentTaskStream,
-  isFinalTaskState,
-  isPendingTaskState,
-  isEndOfStream,
-} from "./agent/stream.ts";
+export { type AgentTaskStream, isEndOfStream } from "./agent/stream.ts";
+export { isFinalTaskState, isPendingTaskState } from "../utils/taskState.ts";
 export { AgentExecutionContext } from "./agent/context.ts";
 export type * from "./agent/types.ts";
 
 // export providers
-export { type IStore } from "./providers/storage/index.ts";
+export {
+  type IStore,
+  type ITaskStore,
+  type TaskQuery,
+  type StoreQueryResult,
+  type VersionedValue,
+  isTaskStore,
+} from "./providers/storage/index.ts";
+export {
+  type QueryCursor,
+  encodeQueryCursor,
+  decodeQueryCursor,
+} from "./providers/storage/query.ts";
 export { type IQueue } from "./providers/queue/queue.ts";
-export { InMemoryStore } from "./providers/storage/in_memory.ts";
+export {
+  InMemoryStore,
+  InMemoryTaskStore,
+} from "./providers/storage/in_memory.ts";
+export {
+  type FileSystemStoreOptions,
+  FileSystemStore,
+} from "./providers/storage/file_system.ts";
+export {
+  type SQLiteValue,
+  type SQLiteStatement,
+  type SQLiteDatabase,
+  type SQLiteTaskStoreOptions,
+  SQLiteTaskStore,
+} from "./providers/storage/sqlite.ts";
 export { InMemoryQueue } from "./providers/queue/in_memory.ts";
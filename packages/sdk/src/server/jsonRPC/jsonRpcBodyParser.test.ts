@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { jsonRpcBodyParser } from "./jsonRpcBodyParser.ts";
+
+const request = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "tasks/get",
+  params: { id: "task-1" },
+};
+
+describe("jsonRpcBodyParser", () => {
+  it("parses a request", async () => {
+    expect(await jsonRpcBodyParser(JSON.stringify(request))).toEqual(request);
+  });
+
+  it("rejects an empty body and invalid JSON as parse errors", async () => {
+    expect(await jsonRpcBodyParser("")).toMatchObject({ code: -32700 });
+    expect(await jsonRpcBodyParser("{")).toMatchObject({ code: -32700 });
+  });
+
+  it("rejects a value that is not a request", async () => {
+    expect(await jsonRpcBodyParser('{"hello":"world"}')).toMatchObject({
+      code: -32600,
+    });
+  });
+
+  it("parses a batch, keeping invalid entries as errors in order", async () => {
+    const notification = {
+      jsonrpc: "2.0",
+      method: "tasks/get",
+      params: { id: "task-2" },
+    };
+
+    expect(
+      await jsonRpcBodyParser(JSON.stringify([request, 1, notification]))
+    ).toEqual([
+      request,
+      expect.objectContaining({ code: -32600 }),
+      notification,
+    ]);
+  });
+
+  it("rejects an empty batch", async () => {
+    expect(await jsonRpcBodyParser("[]")).toMatchObject({
+      code: -32600,
+      message: "Empty JSON-RPC batch",
+    });
+  });
+});
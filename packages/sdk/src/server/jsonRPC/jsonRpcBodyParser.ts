@@ -4,27 +4,45 @@ import {
   JSONRPCRequest,
   JSONRPCRequestSchema,
 } from "../../types/types.ts";
+import type { JSONRPCBatch } from "./jsonRpcServer.ts";
+
+/**
+ * Parses a JSON value into a JSONRPCRequest
+ * @param json - The parsed JSON value
+ * @returns The JSON-RPC request, or an InvalidRequestError if the value is not a valid request
+ */
+function parseJsonRpcRequest(json: unknown): JSONRPCRequest | JSONRPCError {
+  // parse the JSON body into a JSONRPCRequest
+  let jsonRpcRequest = JSONRPCRequestSchema.safeParse(json);
+  if (jsonRpcRequest.success) {
+    // If validation succeeds, return the parsed JSON-RPC request
+    return jsonRpcRequest.data;
+  } else {
+    // If validation fails, return a JSONParseError with the validation issues
+    return invalidRequestError("Invalid JSON-RPC request");
+  }
+}
 
 /**
  * Helper to read and parse JSON body from Node.js IncomingMessage
+ * A JSON array is parsed as a batch, with each invalid entry replaced by its error.
  */
 async function jsonRpcBodyParser(
   body: string
-): Promise<JSONRPCRequest | JSONRPCError> {
+): Promise<JSONRPCRequest | JSONRPCBatch | JSONRPCError> {
   if (!body) {
     return jsonParseError("Empty request body");
   }
   try {
     let json = JSON.parse(body);
-    // parse the JSON body into a JSONRPCRequest
-    let jsonRpcRequest = JSONRPCRequestSchema.safeParse(json);
-    if (jsonRpcRequest.success) {
-      // If validation succeeds, return the parsed JSON-RPC request
-      return jsonRpcRequest.data;
-    } else {
-      // If validation fails, return a JSONParseError with the validation issues
-      return invalidRequestError("Invalid JSON-RPC request");
+    if (Array.isArray(json)) {
+      // an empty batch is an invalid request
+      if (json.length === 0) {
+        return invalidRequestError("Empty JSON-RPC batch");
+      }
+      return json.map(parseJsonRpcRequest);
     }
+    return parseJsonRpcRequest(json);
   } catch (err) {
     return jsonParseError("Invalid json in the body");
   }
@@ -0,0 +1,268 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod/v4";
+import type { JSONRPCRequest } from "../../types/types.ts";
+import { invalidRequestError } from "../../utils/errors.ts";
+import { JSONRPCServer, type StreamResponse } from "./jsonRpcServer.ts";
+
+const getTask = (id?: number | string, taskId = "task-1") =>
+  ({
+    jsonrpc: "2.0",
+    ...(id !== undefined && { id }),
+    method: "tasks/get",
+    params: { id: taskId },
+  }) as JSONRPCRequest;
+
+const streamMessage = (id?: number) =>
+  ({
+    jsonrpc: "2.0",
+    ...(id !== undefined && { id }),
+    method: "message/stream",
+    params: {
+      message: {
+        kind: "message",
+        role: "user",
+        messageId: "message-1",
+        parts: [{ kind: "text", text: "hi" }],
+      },
+    },
+  }) as JSONRPCRequest;
+
+describe("JSONRPCServer", () => {
+  let server: JSONRPCServer;
+  let getTaskHandler: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    server = new JSONRPCServer();
+    // responds with the requested task ID
+    getTaskHandler = vi.fn(async (request: JSONRPCRequest) => ({
+      response: {
+        jsonrpc: "2.0" as const,
+        id: request.id,
+        result: { id: request.params?.id },
+      },
+    }));
+    server.setRequestHandler("tasks/get", getTaskHandler as any);
+  });
+
+  it("answers requests with the response of their handler", async () => {
+    expect(await server.handleRequest(getTask(1))).toEqual({
+      response: { jsonrpc: "2.0", id: 1, result: { id: "task-1" } },
+    });
+  });
+
+  it("answers unknown methods and invalid params with errors", async () => {
+    expect(
+      (
+        await server.handleRequest({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tasks/unknown",
+        })
+      ).response
+    ).toMatchObject({ id: 1, error: { code: -32601 } });
+    expect(
+      (
+        await server.handleRequest({
+          jsonrpc: "2.0",
+          id: 2,
+          method: "tasks/get",
+          params: { id: 42 },
+        })
+      ).response
+    ).toMatchObject({ id: 2, error: { code: -32602 } });
+    expect(getTaskHandler).not.toHaveBeenCalled();
+  });
+
+  it("answers a throwing handler with an internal error", async () => {
+    server.setRequestHandler("tasks/get", async () => {
+      throw new Error("boom");
+    });
+    expect((await server.handleRequest(getTask(1))).response).toMatchObject({
+      id: 1,
+      error: { code: -32603 },
+    });
+  });
+
+  describe("notifications", () => {
+    it("run the handler without a response", async () => {
+      expect(await server.handleRequest(getTask())).toEqual({});
+      expect(getTaskHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("run streams to completion without sending their events", async () => {
+      const consumed: number[] = [];
+      server.setRequestHandler(
+        "message/stream",
+        async () => ({
+          stream: (async function* (): AsyncGenerator<StreamResponse> {
+            for (const index of [1, 2]) {
+              consumed.push(index);
+              yield { response: { jsonrpc: "2.0", result: index } };
+            }
+          })(),
+        }),
+        { streaming: true }
+      );
+
+      expect(await server.handleRequest(streamMessage())).toEqual({});
+      await vi.waitFor(() => expect(consumed).toEqual([1, 2]));
+    });
+  });
+
+  describe("batches", () => {
+    beforeEach(() => {
+      server.setRequestHandler(
+        "message/stream",
+        async () => ({ stream: (async function* () {})() }),
+        { streaming: true }
+      );
+    });
+
+    it("answer the requests in order and leave out notifications", async () => {
+      const responses = await server.handleBatchRequest([
+        getTask(1, "task-1"),
+        getTask(undefined, "task-2"),
+        getTask("three", "task-3"),
+      ]);
+
+      expect(responses).toEqual([
+        { jsonrpc: "2.0", id: 1, result: { id: "task-1" } },
+        { jsonrpc: "2.0", id: "three", result: { id: "task-3" } },
+      ]);
+      expect(getTaskHandler).toHaveBeenCalledTimes(3);
+    });
+
+    it("answer invalid entries with their error", async () => {
+      const responses = await server.handleBatchRequest([
+        invalidRequestError("Invalid JSON-RPC request"),
+        getTask(1),
+      ]);
+
+      expect(responses).toEqual([
+        {
+          jsonrpc: "2.0",
+          id: null,
+          error: invalidRequestError("Invalid JSON-RPC request"),
+        },
+        { jsonrpc: "2.0", id: 1, result: { id: "task-1" } },
+      ]);
+    });
+
+    it("reject streaming methods", async () => {
+      const responses = await server.handleBatchRequest([
+        streamMessage(1),
+        streamMessage(),
+        getTask(2),
+      ]);
+
+      expect(responses).toEqual([
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          error: invalidRequestError(
+            "Streaming method message/stream is not supported in batch requests"
+          ),
+        },
+        { jsonrpc: "2.0", id: 2, result: { id: "task-1" } },
+      ]);
+    });
+
+    it("answer a batch of notifications with no responses", async () => {
+      expect(
+        await server.handleBatchRequest([
+          getTask(),
+          getTask(undefined, "task-2"),
+        ])
+      ).toEqual([]);
+      expect(getTaskHandler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("middlewares", () => {
+    it("wrap the handlers of their methods in order", async () => {
+      const calls: string[] = [];
+      server.use(async (context, next) => {
+        calls.push("outer");
+        context.extension.principal = { id: "alice" };
+        return next();
+      });
+      server.use(
+        async (context, next) => {
+          calls.push("inner");
+          return next();
+        },
+        ["tasks/get"]
+      );
+      server.use(async () => {
+        calls.push("other method");
+        return {};
+      }, ["tasks/cancel"]);
+
+      await server.handleRequest(getTask(1));
+      expect(calls).toEqual(["outer", "inner"]);
+      expect(getTaskHandler).toHaveBeenCalledWith(
+        expect.anything(),
+        undefined,
+        { principal: { id: "alice" } }
+      );
+    });
+
+    it("validate a replaced request again", async () => {
+      server.use(async (context, next) => {
+        context.request = { ...context.request, params: { id: 42 } };
+        return next();
+      });
+
+      expect((await server.handleRequest(getTask(1))).response).toMatchObject({
+        error: { code: -32602 },
+      });
+      expect(getTaskHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("custom methods", () => {
+    it("validate the params against their schema", async () => {
+      const handler = vi.fn(async (request: JSONRPCRequest) => ({
+        response: {
+          jsonrpc: "2.0" as const,
+          id: request.id,
+          result: request.params,
+        },
+      }));
+      server.setMethodHandler(
+        "agent/skills/list",
+        z.object({ tag: z.string() }),
+        handler
+      );
+
+      expect(
+        (
+          await server.handleRequest({
+            jsonrpc: "2.0",
+            id: 1,
+            method: "agent/skills/list",
+            params: { tag: "search" },
+          })
+        ).response
+      ).toEqual({ jsonrpc: "2.0", id: 1, result: { tag: "search" } });
+      expect(
+        (
+          await server.handleRequest({
+            jsonrpc: "2.0",
+            id: 2,
+            method: "agent/skills/list",
+            params: {},
+          })
+        ).response
+      ).toMatchObject({ error: { code: -32602 } });
+    });
+
+    it("can not replace A2A methods", () => {
+      expect(() =>
+        server.setMethodHandler("tasks/get", z.object({}), async () => ({}))
+      ).toThrow(
+        "Cannot register A2A method tasks/get, use a middleware to wrap it"
+      );
+    });
+  });
+});
@@ -1,15 +1,84 @@
+import type { z } from "zod/v4";
 import {
+  A2ARequestSchema,
+  isJSONRPCError,
+  JSONRPCError,
   JSONRPCRequest,
   JSONRPCResponse,
   ErrorType,
   RequestsByMethod,
 } from "../../types/types.ts";
+import { invalidParamsError, invalidRequestError } from "../../utils/errors.ts";
+
+/**
+ * Request schemas of the A2A methods keyed by method name, used to validate the params of each request
+ */
+const requestSchemasByMethod = new Map<string, z.ZodType<JSONRPCRequest>>(
+  A2ARequestSchema.options.map((schema) => [schema.shape.method.value, schema])
+);
+
+/**
+ * A JSON-RPC response sent as an event of a response stream
+ */
+type StreamResponse = {
+  /** The JSON-RPC response */
+  response: JSONRPCResponse;
+  /** Optional ID of the event, a reconnecting client can resume the stream after it */
+  eventId?: string;
+};
 
 type HandlerResponse = {
   response?: JSONRPCResponse;
-  stream?: AsyncGenerator<JSONRPCResponse>;
+  stream?: AsyncGenerator<StreamResponse>;
+};
+
+/**
+ * Runs a response stream to completion, discarding its events
+ * @param stream - The response stream
+ */
+async function drainStream(
+  stream: AsyncGenerator<StreamResponse>
+): Promise<void> {
+  for await (const _ of stream) {
+    // discard the event
+  }
+}
+
+/**
+ * Options for registering a request handler
+ */
+type RequestHandlerOptions = {
+  /** Whether the handler responds with a stream. Streaming methods are rejected in batch requests */
+  streaming?: boolean;
 };
 
+/**
+ * The request being handled, passed through the middleware chain to the method handler
+ */
+type JSONRPCRequestContext = {
+  /** The validated request. Middlewares may replace it before calling next, the replacement is validated again */
+  request: JSONRPCRequest;
+  /** Optional abort signal fired when the request is aborted, e.g. when the client disconnects */
+  requestAbortSignal?: AbortSignal;
+  /** Extension data passed to the handler. Middlewares may add data, e.g. the authenticated principal */
+  extension: Record<string, any>;
+};
+
+/**
+ * Middleware wrapping the handling of requests.
+ * Code before `next()` runs before the handler and code after it can inspect or replace the response.
+ * A middleware can also respond without calling `next()`.
+ */
+type JSONRPCMiddleware = (
+  context: JSONRPCRequestContext,
+  next: () => Promise<HandlerResponse>
+) => Promise<HandlerResponse>;
+
+/**
+ * A parsed JSON-RPC batch. Entries that are not valid requests are kept as errors to be answered in order
+ */
+type JSONRPCBatch = Array<JSONRPCRequest | JSONRPCError>;
+
 /**
  * Interface for the JSON-RPC Server, outlining its core functionalities.
  */
@@ -18,6 +87,7 @@ interface IJSONRPCServer {
    * Registers a handler for a specific JSON-RPC method.
    * @param requestSchema The Zod schema defining the specific request, including a literal method name.
    * @param handler The function to execute when a request matching the schema is received.
+   * @param options Optional handler options, e.g. whether the handler responds with a stream.
    */
   setRequestHandler<M extends keyof RequestsByMethod>(
     methodName: M,
@@ -25,7 +95,8 @@ interface IJSONRPCServer {
       request: RequestsByMethod[M],
       requestAbortSignal?: AbortSignal,
       extension?: Record<string, any>
-    ) => Promise<HandlerResponse>
+    ) => Promise<HandlerResponse>,
+    options?: RequestHandlerOptions
   ): void;
 
   /**
@@ -40,6 +111,46 @@ interface IJSONRPCServer {
     requestAbortSignal?: AbortSignal,
     extension?: Record<string, any>
   ): Promise<HandlerResponse>;
+
+  /**
+   * Registers a handler for a method that is not part of the A2A protocol, with its own params schema.
+   * @param methodName The name of the method, e.g. `agent/skills/list`.
+   * @param paramsSchema The Zod schema the request params are validated against.
+   * @param handler The function to execute with the validated request.
+   * @param options Optional handler options, e.g. whether the handler responds with a stream.
+   * @throws Error if the method is an A2A protocol method.
+   */
+  setMethodHandler<S extends z.ZodType>(
+    methodName: string,
+    paramsSchema: S,
+    handler: (
+      request: JSONRPCRequest & { params: z.infer<S> },
+      requestAbortSignal?: AbortSignal,
+      extension?: Record<string, any>
+    ) => Promise<HandlerResponse>,
+    options?: RequestHandlerOptions
+  ): void;
+
+  /**
+   * Adds a middleware to the chain wrapping the request handlers.
+   * Middlewares run in the order they are added.
+   * @param middleware The middleware to add.
+   * @param methods Optional methods the middleware applies to. Applies to all methods if omitted.
+   */
+  use(middleware: JSONRPCMiddleware, methods?: string[]): void;
+
+  /**
+   * Handles a JSON-RPC batch request.
+   * Requests run concurrently, notifications get no response and streaming methods are rejected.
+   * @param requests The requests of the batch.
+   * @param requestAbortSignal An optional AbortSignal to cancel the batch request.
+   * @returns A promise that resolves to the responses of the requests that are not notifications.
+   */
+  handleBatchRequest(
+    requests: JSONRPCBatch,
+    requestAbortSignal?: AbortSignal,
+    extension?: Record<string, any>
+  ): Promise<JSONRPCResponse[]>;
 }
 
 class JSONRPCServer implements IJSONRPCServer {
@@ -51,6 +162,13 @@ class JSONRPCServer implements IJSONRPCServer {
       extension?: Record<string, any>
     ) => Promise<HandlerResponse>
   > = new Map();
+  private _streamingMethods: Set<string> = new Set();
+  // params schemas of the methods registered with setMethodHandler
+  private _paramsSchemas: Map<string, z.ZodType> = new Map();
+  private _middlewares: Array<{
+    middleware: JSONRPCMiddleware;
+    methods?: Set<string>;
+  }> = [];
 
   private serverAbortSignal?: AbortSignal;
 
@@ -60,16 +178,109 @@ class JSONRPCServer implements IJSONRPCServer {
       request: RequestsByMethod[M],
       requestAbortSignal?: AbortSignal,
       extension?: Record<string, any>
-    ) => Promise<HandlerResponse>
+    ) => Promise<HandlerResponse>,
+    options: RequestHandlerOptions = {}
   ): void {
     // as any is fine since the handler is called with the correct type
     this._handlers.set(methodName, handler as any);
+    if (options.streaming) {
+      this._streamingMethods.add(methodName);
+    } else {
+      this._streamingMethods.delete(methodName);
+    }
+  }
+
+  public setMethodHandler<S extends z.ZodType>(
+    methodName: string,
+    paramsSchema: S,
+    handler: (
+      request: JSONRPCRequest & { params: z.infer<S> },
+      requestAbortSignal?: AbortSignal,
+      extension?: Record<string, any>
+    ) => Promise<HandlerResponse>,
+    options: RequestHandlerOptions = {}
+  ): void {
+    if (requestSchemasByMethod.has(methodName)) {
+      throw new Error(
+        `Cannot register A2A method ${methodName}, use a middleware to wrap it`
+      );
+    }
+    this._paramsSchemas.set(methodName, paramsSchema);
+    // as any is fine since the params are validated against the schema before calling the handler
+    this._handlers.set(methodName, handler as any);
+    if (options.streaming) {
+      this._streamingMethods.add(methodName);
+    } else {
+      this._streamingMethods.delete(methodName);
+    }
+  }
+
+  public use(middleware: JSONRPCMiddleware, methods?: string[]): void {
+    this._middlewares.push({
+      middleware,
+      methods: methods ? new Set(methods) : undefined,
+    });
   }
 
   public async handleRequest(
     request: JSONRPCRequest,
     requestAbortSignal?: AbortSignal,
     extension?: Record<string, any>
+  ): Promise<HandlerResponse> {
+    const result = await this._handle(request, requestAbortSignal, extension);
+    // requests without an id are notifications and get no response
+    if (request.id === undefined) {
+      if (result.stream) {
+        // run the stream to completion without sending its events
+        drainStream(result.stream).catch(() => {});
+      }
+      return {};
+    }
+    return result;
+  }
+
+  public async handleBatchRequest(
+    requests: JSONRPCBatch,
+    requestAbortSignal?: AbortSignal,
+    extension?: Record<string, any>
+  ): Promise<JSONRPCResponse[]> {
+    const responses = await Promise.all(
+      requests.map(async (request): Promise<JSONRPCResponse | undefined> => {
+        // answer invalid entries of the batch with their error
+        if (isJSONRPCError(request)) {
+          return { jsonrpc: "2.0", id: null, error: request };
+        }
+        // streams can not be part of a batch response
+        if (this._streamingMethods.has(request.method)) {
+          return request.id === undefined
+            ? undefined
+            : {
+                jsonrpc: "2.0",
+                id: request.id,
+                error: invalidRequestError(
+                  `Streaming method ${request.method} is not supported in batch requests`
+                ),
+              };
+        }
+        const { response } = await this.handleRequest(
+          request,
+          requestAbortSignal,
+          extension
+        );
+        return response;
+      })
+    );
+    return responses.filter((response) => response !== undefined);
+  }
+
+  /**
+   * Validates a request and runs the handler of its method
+   * @private
+   */
+  private async _handle(
+    request: JSONRPCRequest,
+    requestAbortSignal?: AbortSignal,
+    extension?: Record<string, any>
   ): Promise<HandlerResponse> {
     try {
       const handler = this._handlers.get(request.method);
@@ -88,8 +299,51 @@ class JSONRPCServer implements IJSONRPCServer {
         };
       }
 
-      // Run the handler and return the result
-      return handler(request, requestAbortSignal, extension);
+      // Validate the request params against the schema of the method
+      const method = request.method;
+      const validated = this._validate(method, request);
+      if (isJSONRPCError(validated)) {
+        return {
+          response: { jsonrpc: "2.0", id: request.id, error: validated },
+        };
+      }
+
+      // Run the handler wrapped by the middlewares of the method and return the result
+      const context: JSONRPCRequestContext = {
+        request: validated,
+        requestAbortSignal,
+        extension: extension ?? {},
+      };
+      const middlewares = this._middlewares
+        .filter(({ methods }) => !methods || methods.has(method))
+        .map(({ middleware }) => middleware);
+      const dispatch = async (index: number): Promise<HandlerResponse> => {
+        const middleware = middlewares[index];
+        if (!middleware) {
+          // a middleware replaced the request, validate the replacement for the handler
+          let handledRequest = context.request;
+          if (handledRequest !== validated) {
+            const revalidated = this._validate(method, handledRequest);
+            if (isJSONRPCError(revalidated)) {
+              return {
+                response: {
+                  jsonrpc: "2.0",
+                  id: handledRequest.id,
+                  error: revalidated,
+                },
+              };
+            }
+            handledRequest = revalidated;
+          }
+          return handler(
+            handledRequest,
+            context.requestAbortSignal,
+            context.extension
+          );
+        }
+        return middleware(context, () => dispatch(index + 1));
+      };
+      return await dispatch(0);
     } catch (error) {
       return {
         response: {
@@ -103,7 +357,56 @@ class JSONRPCServer implements IJSONRPCServer {
       };
     }
   }
+
+  /**
+   * Validates a request against the request or params schema of a method
+   * @param method - The method the request is handled by
+   * @param request - The request to validate
+   * @returns The parsed request, or the error of an invalid request
+   * @private
+   */
+  private _validate(
+    method: string,
+    request: JSONRPCRequest
+  ): JSONRPCRequest | JSONRPCError {
+    if (request.method !== method) {
+      return invalidRequestError(
+        `The request for method ${method} can not be changed to method ${request.method}`
+      );
+    }
+    const schema = requestSchemasByMethod.get(method);
+    if (schema) {
+      const parsed = schema.safeParse(request);
+      if (!parsed.success) {
+        return invalidParamsError(
+          `Invalid parameters for method ${method}`,
+          parsed.error.issues
+        );
+      }
+      request = parsed.data;
+    }
+    const paramsSchema = this._paramsSchemas.get(method);
+    if (paramsSchema) {
+      const parsed = paramsSchema.safeParse(request.params);
+      if (!parsed.success) {
+        return invalidParamsError(
+          `Invalid parameters for method ${method}`,
+          parsed.error.issues
+        );
+      }
+      request = { ...request, params: parsed.data as Record<string, any> };
+    }
+    return request;
+  }
 }
 
-export type { HandlerResponse, IJSONRPCServer };
+export type {
+  HandlerResponse,
+  StreamResponse,
+  RequestHandlerOptions,
+  JSONRPCBatch,
+  JSONRPCRequestContext,
+  JSONRPCMiddleware,
+  IJSONRPCServer,
+};
 export { JSONRPCServer };
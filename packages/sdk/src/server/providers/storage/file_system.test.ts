@@ -0,0 +1,122 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileSystemStore } from "./file_system.ts";
+
+describe("FileSystemStore", () => {
+  let directory: string;
+  let store: FileSystemStore<{ name: string }>;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "a2alite-store-"));
+    store = new FileSystemStore({ directory });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("sets, gets and deletes values", async () => {
+    await store.set("task-1", { name: "first" });
+
+    expect(await store.get("task-1")).toEqual({ name: "first" });
+    expect(await store.has("task-1")).toBe(true);
+    expect(await store.delete("task-1")).toBe(true);
+    expect(await store.delete("task-1")).toBe(false);
+    expect(await store.get("task-1")).toBeUndefined();
+  });
+
+  it("overwrites values without leaving temporary files", async () => {
+    await store.set("task-1", { name: "first" });
+    await store.set("task-1", { name: "second" });
+
+    expect(await store.get("task-1")).toEqual({ name: "second" });
+    expect(await readdir(directory)).toHaveLength(1);
+  });
+
+  it("creates the directory on the first write", async () => {
+    const nestedStore = new FileSystemStore({
+      directory: join(directory, "nested", "tasks"),
+    });
+
+    expect(await nestedStore.keys()).toEqual([]);
+    await nestedStore.set("task-1", 1);
+    expect(await nestedStore.get("task-1")).toBe(1);
+  });
+
+  it("stores keys that are not valid or distinct file names", async () => {
+    const keys = ["Task", "task", "../escape", "a/b\\c", "x".repeat(1000), ""];
+    for (const [index, key] of keys.entries()) {
+      await store.set(key, { name: `value-${index}` });
+    }
+
+    for (const [index, key] of keys.entries()) {
+      expect(await store.get(key)).toEqual({ name: `value-${index}` });
+    }
+    expect((await store.keys()).sort()).toEqual([...keys].sort());
+    const files = await readdir(directory);
+    expect(files).toHaveLength(keys.length);
+    expect(files.every((file) => /^[0-9a-f]{64}\.json$/.test(file))).toBe(true);
+  });
+
+  it("lists the keys, values and entries", async () => {
+    await store.set("a", { name: "A" });
+    await store.set("b", { name: "B" });
+
+    const byKey = ([a]: [string, unknown], [b]: [string, unknown]) =>
+      a.localeCompare(b);
+    expect((await store.entries()).sort(byKey)).toEqual([
+      ["a", { name: "A" }],
+      ["b", { name: "B" }],
+    ]);
+    expect((await store.values()).map(({ name }) => name).sort()).toEqual([
+      "A",
+      "B",
+    ]);
+  });
+
+  it("expires values after their TTL and deletes their files", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await store.set("short", { name: "short" }, 10);
+    await store.set("long", { name: "long" }, 60);
+    await store.set("forever", { name: "forever" });
+
+    vi.setSystemTime(Date.now() + 30_000);
+    expect(await store.get("short")).toBeUndefined();
+    expect(await store.has("short")).toBe(false);
+    expect(await store.get("long")).toEqual({ name: "long" });
+    expect(await readdir(directory)).toHaveLength(2);
+
+    vi.setSystemTime(Date.now() + 60_000);
+    expect(await store.keys()).toEqual(["forever"]);
+    expect(await readdir(directory)).toHaveLength(1);
+  });
+
+  it("ignores files that are not entries of the store", async () => {
+    await store.set("task-1", { name: "first" });
+    const [entryFile] = await readdir(directory);
+    await writeFile(join(directory, "corrupt.json"), "{not json");
+    await writeFile(join(directory, "foreign.json"), '{"hello":"world"}');
+    await writeFile(join(directory, "notes.txt"), "not an entry");
+    // an entry copied to a file that is not named by its key
+    await writeFile(
+      join(directory, "copy.json"),
+      await readFile(join(directory, entryFile), "utf8")
+    );
+
+    expect(await store.entries()).toEqual([["task-1", { name: "first" }]]);
+    expect(await store.get("corrupt")).toBeUndefined();
+  });
+
+  it("clears only the entry files", async () => {
+    await store.set("a", { name: "A" });
+    await store.set("b", { name: "B" });
+    await writeFile(join(directory, "notes.txt"), "not an entry");
+
+    await store.clear();
+    expect(await store.keys()).toEqual([]);
+    expect(await readdir(directory)).toEqual(["notes.txt"]);
+  });
+});
@@ -0,0 +1,263 @@
+import { createHash } from "node:crypto";
+import {
+  link,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import { IStore } from "./index.ts";
+
+/** File extension of the stored entries */
+const ENTRY_EXTENSION = ".json";
+
+/**
+ * A stored entry, written as the JSON content of its file
+ */
+type FileSystemEntry<T> = {
+  key: string;
+  value: T;
+  expiresAt?: number;
+};
+
+/**
+ * Options for creating a FileSystemStore
+ */
+type FileSystemStoreOptions = {
+  /** Directory the entries are written to, created if it does not exist */
+  directory: string;
+};
+
+/**
+ * Parses the content of an entry file
+ * @returns The entry, or undefined if the content is not a stored entry, e.g. a corrupt or foreign file
+ */
+function parseEntry<T>(content: string): FileSystemEntry<T> | undefined {
+  let entry: unknown;
+  try {
+    entry = JSON.parse(content);
+  } catch (error) {
+    return undefined;
+  }
+  if (
+    typeof entry !== "object" ||
+    entry === null ||
+    typeof (entry as FileSystemEntry<T>).key !== "string" ||
+    !("value" in entry)
+  ) {
+    return undefined;
+  }
+  return entry as FileSystemEntry<T>;
+}
+
+/**
+ * Gets the name of the file storing a key: the hex SHA-256 hash of the key, so names can not escape
+ * the directory, have a fixed length and do not collide on case-insensitive file systems
+ */
+function entryFileName(key: string): string {
+  return createHash("sha256").update(key).digest("hex") + ENTRY_EXTENSION;
+}
+
+/**
+ * Checks if an entry is expired
+ */
+function isExpired(entry: FileSystemEntry<unknown>): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt < Date.now();
+}
+
+/**
+ * Checks if an error is a file system error with the given code
+ */
+function hasErrorCode(error: unknown, code: string): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === code
+  );
+}
+
+/**
+ * File system implementation of IStore<T>
+ *
+ * FileSystemStore persists every entry as a JSON file in a directory, so the stored
+ * values survive restarts without an external service. Values must be JSON serializable.
+ * Entry files are named by the hash of their key, the key itself is stored in the file.
+ * Writes are atomic: an entry is written to a temporary file that is then renamed over the entry file.
+ * It supports TTL (time-to-live), expired entries are deleted when they are read or enumerated.
+ * Files in the directory that are not entries of the store, e.g. corrupt or foreign JSON files, are ignored.
+ *
+ * @template T - The type of values stored in this store
+ */
+class FileSystemStore<T = any> implements IStore<T> {
+  private readonly directory: string;
+
+  constructor({ directory }: FileSystemStoreOptions) {
+    this.directory = directory;
+  }
+
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    let expiresAt: number | undefined = undefined;
+    if (ttl && ttl > 0) {
+      expiresAt = Date.now() + ttl * 1000;
+    }
+    const entry: FileSystemEntry<T> = { key, value, expiresAt };
+    await mkdir(this.directory, { recursive: true });
+    const path = this.entryPath(key);
+    // write to a temporary file first, so readers never see a partially written entry
+    const tempPath = `${path}.${uuidv4()}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(entry), "utf8");
+      await rename(tempPath, path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = await this.readEntry(key);
+    return entry?.value;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await unlink(this.entryPath(key));
+      return true;
+    } catch (error) {
+      if (hasErrorCode(error, "ENOENT")) return false;
+      throw error;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.readEntry(key)) !== undefined;
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.entryFiles()) {
+      await rm(join(this.directory, file), { force: true });
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    return (await this.readEntries()).map((entry) => entry.key);
+  }
+
+  async values(): Promise<T[]> {
+    return (await this.readEntries()).map((entry) => entry.value);
+  }
+
+  async entries(): Promise<[string, T][]> {
+    return (await this.readEntries()).map((entry) => [entry.key, entry.value]);
+  }
+
+  /**
+   * Gets the path of the file storing a key
+   * @private
+   */
+  private entryPath(key: string): string {
+    return join(this.directory, entryFileName(key));
+  }
+
+  /**
+   * Reads the entry of a key, deleting it if it is expired
+   * @returns The entry, or undefined if the file does not exist, is not an entry of the key or the entry is expired
+   * @private
+   */
+  private async readEntry(
+    key: string
+  ): Promise<FileSystemEntry<T> | undefined> {
+    const entry = await this.readEntryFile(this.entryPath(key));
+    return entry?.key === key ? entry : undefined;
+  }
+
+  /**
+   * Reads an entry file, deleting it if its entry is expired
+   * @returns The entry, or undefined if the file does not exist, is not an entry or the entry is expired
+   * @private
+   */
+  private async readEntryFile(
+    path: string
+  ): Promise<FileSystemEntry<T> | undefined> {
+    let content: string;
+    try {
+      content = await readFile(path, "utf8");
+    } catch (error) {
+      if (hasErrorCode(error, "ENOENT")) return undefined;
+      throw error;
+    }
+    const entry = parseEntry<T>(content);
+    if (entry && isExpired(entry)) {
+      await this.deleteExpired(path);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Deletes the file of an expired entry.
+   * The file is moved aside before it is deleted, so an entry written concurrently in its place is restored instead of lost
+   * @private
+   */
+  private async deleteExpired(path: string): Promise<void> {
+    const expiredPath = `${path}.${uuidv4()}.expired`;
+    try {
+      await rename(path, expiredPath);
+    } catch (error) {
+      // deleted by a concurrent read
+      if (hasErrorCode(error, "ENOENT")) return;
+      throw error;
+    }
+    try {
+      const entry = parseEntry<T>(await readFile(expiredPath, "utf8"));
+      if (entry && !isExpired(entry)) {
+        try {
+          // link fails if an even newer entry was written in the meantime, which is kept
+          await link(expiredPath, path);
+        } catch (error) {
+          if (!hasErrorCode(error, "EEXIST")) throw error;
+        }
+      }
+    } finally {
+      await rm(expiredPath, { force: true });
+    }
+  }
+
+  /**
+   * Lists the entry files of the directory, skipping temporary files of ongoing writes
+   * @private
+   */
+  private async entryFiles(): Promise<string[]> {
+    try {
+      const files = await readdir(this.directory);
+      return files.filter((file) => file.endsWith(ENTRY_EXTENSION));
+    } catch (error) {
+      if (hasErrorCode(error, "ENOENT")) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Reads all entries that are not expired, deleting the expired ones and skipping the files that are not entries of the store
+   * @private
+   */
+  private async readEntries(): Promise<FileSystemEntry<T>[]> {
+    const entries: FileSystemEntry<T>[] = [];
+    for (const file of await this.entryFiles()) {
+      const entry = await this.readEntryFile(join(this.directory, file));
+      // skip entries copied to a file that is not named by their key
+      if (entry && entryFileName(entry.key) === file) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+}
+
+export type { FileSystemStoreOptions };
+export { FileSystemStore };
@@ -1,33 +1,65 @@
-import { IStore } from "./index.ts";
+import type { Task } from "../../../types/types.ts";
+import {
+  IStore,
+  ITaskStore,
+  TaskQuery,
+  StoreQueryResult,
+  VersionedValue,
+} from "./index.ts";
+import { queryTaskEntries } from "./query.ts";
 
 /**
  * In-memory implementation of IStore<T>
  * 
  * InMemoryStore provides a simple, non-persistent storage implementation
  * suitable for development and testing. It supports TTL (time-to-live)
- * with automatic cleanup of expired entries.
+ * with automatic cleanup of expired entries and compare-and-set updates.
  * 
  * @template T - The type of values stored in this store
  */
 class InMemoryStore<T = any> implements IStore<T> {
-  private store = new Map<string, { value: T; expiresAt?: number }>();
+  protected store = new Map<
+    string,
+    { value: T; version: number; updatedAt: number; expiresAt?: number }
+  >();
+  // incremented on every write, so a key never gets the same version twice
+  private lastVersion = 0;
 
   async set(key: string, value: T, ttl?: number): Promise<void> {
-    let expiresAt: number | undefined = undefined;
-    if (ttl && ttl > 0) {
-      expiresAt = Date.now() + ttl * 1000;
-    }
-    this.store.set(key, { value, expiresAt });
+    this.write(key, value, ttl);
   }
 
   async get(key: string): Promise<T | undefined> {
+    return (await this.getVersioned(key))?.value;
+  }
+
+  async getVersioned(key: string): Promise<VersionedValue<T> | undefined> {
     const entry = this.store.get(key);
     if (!entry) return undefined;
     if (entry.expiresAt && entry.expiresAt < Date.now()) {
       this.store.delete(key);
       return undefined;
     }
-    return entry.value;
+    return { value: entry.value, version: String(entry.version) };
+  }
+
+  async compareAndSet(
+    key: string,
+    value: T,
+    expectedVersion: string | undefined,
+    ttl?: number
+  ): Promise<boolean> {
+    // no await between the check and the write, so no other write can interleave
+    const entry = this.store.get(key);
+    const version =
+      entry && !(entry.expiresAt && entry.expiresAt < Date.now())
+        ? String(entry.version)
+        : undefined;
+    if (version !== expectedVersion) {
+      return false;
+    }
+    this.write(key, value, ttl);
+    return true;
   }
 
   async delete(key: string): Promise<boolean> {
@@ -63,12 +95,29 @@ class InMemoryStore<T = any> implements IStore<T> {
     return Array.from(this.store.entries()).map(([k, v]) => [k, v.value]);
   }
 
+  /**
+   * Write a value with a new version
+   * @private
+   */
+  private write(key: string, value: T, ttl?: number) {
+    const updatedAt = Date.now();
+    let expiresAt: number | undefined = undefined;
+    if (ttl && ttl > 0) {
+      expiresAt = updatedAt + ttl * 1000;
+    }
+    this.store.set(key, {
+      value,
+      version: ++this.lastVersion,
+      updatedAt,
+      expiresAt,
+    });
+  }
+
   /**
    * Remove expired entries from the store
    * Called automatically by methods that enumerate the store
-   * @private
    */
-  private cleanupExpired() {
+  protected cleanupExpired() {
     const now = Date.now();
     for (const [key, entry] of this.store.entries()) {
       if (entry.expiresAt && entry.expiresAt < now) {
@@ -78,4 +127,24 @@ class InMemoryStore<T = any> implements IStore<T> {
   }
 }
 
-export { InMemoryStore };
+/**
+ * In-memory implementation of ITaskStore
+ *
+ * InMemoryTaskStore is an InMemoryStore of tasks that also serves task queries,
+ * filtering the stored tasks by context, state and the time they were stored.
+ */
+class InMemoryTaskStore extends InMemoryStore<Task> implements ITaskStore {
+  async query(query: TaskQuery): Promise<StoreQueryResult<Task>> {
+    this.cleanupExpired();
+    return queryTaskEntries(
+      Array.from(this.store.entries()).map(([key, { value, updatedAt }]) => ({
+        key,
+        value,
+        updatedAt,
+      })),
+      query
+    );
+  }
+}
+
+export { InMemoryStore, InMemoryTaskStore };
@@ -1,3 +1,42 @@
+import type { Task, TaskState } from "../../../types/types.ts";
+
+/**
+ * Query for listing stored tasks, most recently stored first
+ */
+type TaskQuery = {
+  /** Only tasks with this context ID */
+  contextId?: string;
+  /** Only tasks in this state */
+  state?: TaskState;
+  /** Only tasks stored at or after this time (ISO 8601) */
+  updatedAfter?: string;
+  /** Only tasks stored before this time (ISO 8601) */
+  updatedBefore?: string;
+  /** Maximum number of tasks to return (default: 50) */
+  limit?: number;
+  /** Cursor returned with the previous page, to continue after its last task */
+  cursor?: string;
+};
+
+/**
+ * A page of values matching a store query
+ */
+type StoreQueryResult<T> = {
+  /** The matching values */
+  items: T[];
+  /** Cursor to get the next page, undefined if this is the last page */
+  nextCursor?: string;
+};
+
+/**
+ * A stored value with its version
+ */
+type VersionedValue<T> = {
+  value: T;
+  /** Opaque version of the value, changed whenever the value is stored */
+  version: string;
+};
+
 /**
  * Generic key-value store interface for task context and state management
  * 
@@ -55,6 +94,59 @@ interface IStore<T = any> {
    * Get all entries (key-value pairs) in the store
    */
   entries?(): Promise<[string, T][]>;
+
+  /**
+   * Get a value by key with its current version
+   * @param key - The key to retrieve
+   * @returns The stored value and its version or undefined if not found
+   */
+  getVersioned?(key: string): Promise<VersionedValue<T> | undefined>;
+
+  /**
+   * Store a value only if the stored version did not change, for optimistic concurrency.
+   * Stores implementing it must also implement getVersioned
+   * @param key - The key to store the value under
+   * @param value - The value to store
+   * @param expectedVersion - The version returned by getVersioned, or undefined if the key must not exist
+   * @param ttl - Optional time-to-live in seconds
+   * @returns true if the value was stored, false if the stored version is not the expected one
+   */
+  compareAndSet?(
+    key: string,
+    value: T,
+    expectedVersion: string | undefined,
+    ttl?: number
+  ): Promise<boolean>;
+}
+
+/**
+ * Task store that can list the stored tasks without enumerating the store.
+ * Its cursors are encoded with `encodeQueryCursor`, the server rejects page tokens `decodeQueryCursor` can not decode
+ */
+interface ITaskStore extends IStore<Task> {
+  /**
+   * List the tasks matching a query, with cursor pagination
+   * @param query - The filters and the page to get
+   * @returns A page of matching tasks, most recently stored first
+   * @throws Error if the query cursor or time range is invalid
+   */
+  query(query: TaskQuery): Promise<StoreQueryResult<Task>>;
+}
+
+/**
+ * Checks if a task store can serve task queries
+ * @param store - The task store
+ * @returns true if the store implements ITaskStore
+ */
+function isTaskStore(store: IStore<Task>): store is ITaskStore {
+  return typeof (store as Partial<ITaskStore>).query === "function";
 }
 
-export type { IStore };
+export type {
+  IStore,
+  ITaskStore,
+  TaskQuery,
+  StoreQueryResult,
+  VersionedValue,
+};
+export { isTaskStore };
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Task } from "../../../types/types.ts";
+import {
+  DEFAULT_QUERY_LIMIT,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  getQueryLimit,
+  queryTaskEntries,
+  type QueryEntry,
+} from "./query.ts";
+
+const entry = (
+  key: string,
+  updatedAt: number,
+  contextId = "context-1",
+  state: Task["status"]["state"] = "completed"
+): QueryEntry => ({
+  key,
+  updatedAt,
+  value: { kind: "task", id: key, contextId, status: { state } },
+});
+
+const keys = (tasks: Task[]) => tasks.map(({ id }) => id);
+
+describe("query cursors", () => {
+  it("round trips the position of a task", () => {
+    const cursor = { updatedAt: 1700000000000, key: "täsk/1 ✓" };
+    expect(decodeQueryCursor(encodeQueryCursor(cursor))).toEqual(cursor);
+  });
+
+  it.each([
+    ["not base64", "%%%"],
+    ["not JSON", btoa("not json")],
+    ["not a position", btoa(encodeURIComponent(JSON.stringify({ a: 1 })))],
+    ["a wrong type", btoa(encodeURIComponent(JSON.stringify(["1", "key"])))],
+  ])("rejects a cursor that is %s", (_, cursor) => {
+    expect(() => decodeQueryCursor(cursor)).toThrow("Invalid query cursor");
+  });
+});
+
+describe("getQueryLimit", () => {
+  it("defaults missing and non-positive limits", () => {
+    expect(getQueryLimit({})).toBe(DEFAULT_QUERY_LIMIT);
+    expect(getQueryLimit({ limit: 0 })).toBe(DEFAULT_QUERY_LIMIT);
+    expect(getQueryLimit({ limit: -5 })).toBe(DEFAULT_QUERY_LIMIT);
+    expect(getQueryLimit({ limit: 2.7 })).toBe(2);
+  });
+});
+
+describe("queryTaskEntries", () => {
+  const entries = [
+    entry("b", 2000, "context-2", "working"),
+    entry("a", 2000),
+    entry("c", 3000),
+    entry("d", 1000, "context-2"),
+  ];
+
+  it("orders the most recently stored first, then by key", () => {
+    expect(keys(queryTaskEntries(entries, {}).items)).toEqual([
+      "c",
+      "a",
+      "b",
+      "d",
+    ]);
+  });
+
+  it("pages through the entries with cursors", () => {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = queryTaskEntries(entries, { limit: 1, cursor });
+      pages.push(keys(page.items));
+      cursor = page.nextCursor;
+    } while (cursor !== undefined);
+
+    expect(pages).toEqual([["c"], ["a"], ["b"], ["d"]]);
+  });
+
+  it("does not return a cursor on an exactly full last page", () => {
+    expect(queryTaskEntries(entries, { limit: 4 }).nextCursor).toBeUndefined();
+  });
+
+  it("filters by context, state and update time", () => {
+    expect(
+      keys(queryTaskEntries(entries, { contextId: "context-2" }).items)
+    ).toEqual(["b", "d"]);
+    expect(keys(queryTaskEntries(entries, { state: "working" }).items)).toEqual(
+      ["b"]
+    );
+    expect(
+      keys(
+        queryTaskEntries(entries, {
+          updatedAfter: new Date(2000).toISOString(),
+          updatedBefore: new Date(3000).toISOString(),
+        }).items
+      )
+    ).toEqual(["a", "b"]);
+  });
+
+  it("rejects invalid cursors and times", () => {
+    expect(() => queryTaskEntries(entries, { cursor: "invalid" })).toThrow(
+      "Invalid query cursor"
+    );
+    expect(() =>
+      queryTaskEntries(entries, { updatedBefore: "tomorrow" })
+    ).toThrow("Invalid query time tomorrow");
+  });
+});
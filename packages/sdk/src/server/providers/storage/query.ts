@@ -0,0 +1,146 @@
+import type { Task } from "../../../types/types.ts";
+import type { TaskQuery, StoreQueryResult } from "./index.ts";
+
+/** Number of tasks returned by a task query without a limit */
+const DEFAULT_QUERY_LIMIT = 50;
+
+/**
+ * Position of the last task of a query page, in the order of the query results:
+ * most recently stored first, tasks stored at the same time ordered by key
+ */
+type QueryCursor = {
+  updatedAt: number;
+  key: string;
+};
+
+/**
+ * Encodes the position of the last task of a page as an opaque cursor
+ * @param cursor - The position of the last task
+ * @returns The encoded cursor
+ */
+function encodeQueryCursor(cursor: QueryCursor): string {
+  return btoa(
+    encodeURIComponent(JSON.stringify([cursor.updatedAt, cursor.key]))
+  );
+}
+
+/**
+ * Decodes a cursor returned with a query page
+ * @param cursor - The encoded cursor
+ * @returns The position of the last task of the page
+ * @throws Error if the cursor is invalid
+ */
+function decodeQueryCursor(cursor: string): QueryCursor {
+  try {
+    const [updatedAt, key] = JSON.parse(decodeURIComponent(atob(cursor)));
+    if (typeof updatedAt === "number" && typeof key === "string") {
+      return { updatedAt, key };
+    }
+  } catch (e) {
+    // handled below
+  }
+  throw new Error("Invalid query cursor");
+}
+
+/**
+ * Parses the time range of a query
+ * @param query - The task query
+ * @returns The time range in milliseconds
+ * @throws Error if a time is not a valid date
+ */
+function getQueryTimeRange(query: TaskQuery): {
+  updatedAfter?: number;
+  updatedBefore?: number;
+} {
+  const parse = (time?: string) => {
+    if (time === undefined) return undefined;
+    const ms = Date.parse(time);
+    if (Number.isNaN(ms)) {
+      throw new Error(`Invalid query time ${time}`);
+    }
+    return ms;
+  };
+  return {
+    updatedAfter: parse(query.updatedAfter),
+    updatedBefore: parse(query.updatedBefore),
+  };
+}
+
+/**
+ * Gets the page size of a query
+ * @param query - The task query
+ * @returns The maximum number of tasks to return
+ */
+function getQueryLimit(query: TaskQuery): number {
+  return query.limit !== undefined && query.limit > 0
+    ? Math.floor(query.limit)
+    : DEFAULT_QUERY_LIMIT;
+}
+
+/**
+ * A stored task with its key and the time it was stored
+ */
+type QueryEntry = {
+  key: string;
+  value: Task;
+  /** Time the task was stored in milliseconds */
+  updatedAt: number;
+};
+
+/**
+ * Runs a task query over a list of entries, for stores that can enumerate their entries
+ * @param entries - The entries of the store that are not expired
+ * @param query - The filters and the page to get
+ * @returns A page of matching tasks, most recently stored first
+ * @throws Error if the query cursor or time range is invalid
+ */
+function queryTaskEntries(
+  entries: QueryEntry[],
+  query: TaskQuery
+): StoreQueryResult<Task> {
+  const cursor =
+    query.cursor !== undefined ? decodeQueryCursor(query.cursor) : undefined;
+  const { updatedAfter, updatedBefore } = getQueryTimeRange(query);
+  const limit = getQueryLimit(query);
+
+  const matches = entries
+    .filter(({ key, value, updatedAt }) => {
+      return (
+        (query.contextId === undefined ||
+          value.contextId === query.contextId) &&
+        (query.state === undefined || value.status?.state === query.state) &&
+        (updatedAfter === undefined || updatedAt >= updatedAfter) &&
+        (updatedBefore === undefined || updatedAt < updatedBefore) &&
+        // continue after the last task of the previous page
+        (cursor === undefined ||
+          updatedAt < cursor.updatedAt ||
+          (updatedAt === cursor.updatedAt && key > cursor.key))
+      );
+    })
+    // most recently stored first, tasks stored at the same time ordered by key
+    .sort(
+      (a, b) =>
+        b.updatedAt - a.updatedAt ||
+        (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)
+    );
+
+  const page = matches.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map((entry) => entry.value),
+    nextCursor:
+      matches.length > limit && last
+        ? encodeQueryCursor({ updatedAt: last.updatedAt, key: last.key })
+        : undefined,
+  };
+}
+
+export type { QueryCursor, QueryEntry };
+export {
+  queryTaskEntries,
+  DEFAULT_QUERY_LIMIT,
+  encodeQueryCursor,
+  decodeQueryCursor,
+  getQueryTimeRange,
+  getQueryLimit,
+};
@@ -0,0 +1,290 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Task, TaskState } from "../../../types/types.ts";
+import { SQLiteTaskStore, type SQLiteDatabase } from "./sqlite.ts";
+
+// node:sqlite is available from Node 22.5, the tests are skipped on older versions
+const sqliteModule = "node:sqlite";
+const sqlite = await import(sqliteModule).catch(() => undefined);
+
+const openDatabase = (): SQLiteDatabase => new sqlite.DatabaseSync(":memory:");
+
+const task = (
+  id: string,
+  contextId = "context-1",
+  state: TaskState = "working"
+): Task => ({
+  kind: "task",
+  id,
+  contextId,
+  status: { state },
+});
+
+describe.skipIf(!sqlite)("SQLiteTaskStore", () => {
+  let database: SQLiteDatabase;
+  let store: SQLiteTaskStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    database = openDatabase();
+    store = new SQLiteTaskStore({ database });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sets, gets and deletes tasks", async () => {
+    await store.set("task-1", task("task-1"));
+
+    expect(await store.get("task-1")).toEqual(task("task-1"));
+    expect(await store.has("task-1")).toBe(true);
+    expect(await store.keys()).toEqual(["task-1"]);
+    expect(await store.delete("task-1")).toBe(true);
+    expect(await store.delete("task-1")).toBe(false);
+    expect(await store.get("task-1")).toBeUndefined();
+  });
+
+  it("increments the version on every write", async () => {
+    await store.set("task-1", task("task-1"));
+    const first = await store.getVersioned("task-1");
+    await store.set("task-1", task("task-1", "context-1", "completed"));
+    const second = await store.getVersioned("task-1");
+
+    expect(first?.version).toBe("1");
+    expect(second).toEqual({
+      value: task("task-1", "context-1", "completed"),
+      version: "2",
+    });
+  });
+
+  describe("compareAndSet", () => {
+    it("inserts a task only if it does not exist", async () => {
+      expect(
+        await store.compareAndSet("task-1", task("task-1"), undefined)
+      ).toBe(true);
+      expect(
+        await store.compareAndSet(
+          "task-1",
+          task("task-1", "context-1", "failed"),
+          undefined
+        )
+      ).toBe(false);
+      expect(await store.get("task-1")).toEqual(task("task-1"));
+    });
+
+    it("updates a task only at the expected version", async () => {
+      await store.set("task-1", task("task-1"));
+      const { version } = (await store.getVersioned("task-1"))!;
+
+      const completed = task("task-1", "context-1", "completed");
+      expect(await store.compareAndSet("task-1", completed, version)).toBe(
+        true
+      );
+      // a concurrent writer that read the same version loses
+      expect(
+        await store.compareAndSet(
+          "task-1",
+          task("task-1", "context-1", "canceled"),
+          version
+        )
+      ).toBe(false);
+      expect(
+        await store.compareAndSet("task-1", completed, "not-a-version")
+      ).toBe(false);
+      expect(await store.getVersioned("task-1")).toEqual({
+        value: completed,
+        version: "2",
+      });
+    });
+
+    it("does not update a missing or expired task", async () => {
+      expect(await store.compareAndSet("task-1", task("task-1"), "1")).toBe(
+        false
+      );
+
+      await store.set("task-2", task("task-2"), 10);
+      vi.setSystemTime(Date.now() + 11_000);
+      expect(await store.compareAndSet("task-2", task("task-2"), "1")).toBe(
+        false
+      );
+      // an expired task is replaced like a missing one
+      expect(
+        await store.compareAndSet("task-2", task("task-2"), undefined)
+      ).toBe(true);
+      expect(await store.get("task-2")).toEqual(task("task-2"));
+    });
+  });
+
+  it("expires tasks after their TTL and deletes their rows", async () => {
+    await store.set("short", task("short"), 10);
+    await store.set("long", task("long"), 60);
+    await store.set("forever", task("forever"));
+
+    vi.setSystemTime(Date.now() + 30_000);
+    expect(await store.get("short")).toBeUndefined();
+    expect((await store.keys()).sort()).toEqual(["forever", "long"]);
+
+    vi.setSystemTime(Date.now() + 60_000);
+    expect(await store.entries()).toEqual([["forever", task("forever")]]);
+    expect(
+      database.prepare("SELECT COUNT(*) AS count FROM tasks").get()
+    ).toEqual({ count: 1 });
+  });
+
+  describe("query", () => {
+    beforeEach(async () => {
+      // stored one second apart: task-0 first, task-4 last
+      for (let index = 0; index < 5; index++) {
+        await store.set(
+          `task-${index}`,
+          task(
+            `task-${index}`,
+            index % 2 === 0 ? "even" : "odd",
+            index < 3 ? "completed" : "working"
+          )
+        );
+        vi.setSystemTime(Date.now() + 1000);
+      }
+    });
+
+    const ids = (tasks: Task[]) => tasks.map(({ id }) => id);
+
+    it("lists the most recently stored tasks first, in pages", async () => {
+      const first = await store.query({ limit: 2 });
+      const second = await store.query({ limit: 2, cursor: first.nextCursor });
+      const third = await store.query({ limit: 2, cursor: second.nextCursor });
+
+      expect(ids(first.items)).toEqual(["task-4", "task-3"]);
+      expect(ids(second.items)).toEqual(["task-2", "task-1"]);
+      expect(ids(third.items)).toEqual(["task-0"]);
+      expect(third.nextCursor).toBeUndefined();
+    });
+
+    it("orders tasks stored at the same time by key", async () => {
+      await store.set("b", task("b"));
+      await store.set("a", task("a"));
+
+      const page = await store.query({ limit: 1 });
+      expect(ids(page.items)).toEqual(["a"]);
+      expect(
+        ids((await store.query({ limit: 1, cursor: page.nextCursor })).items)
+      ).toEqual(["b"]);
+    });
+
+    it("filters by context, state and update time", async () => {
+      const start = Date.now() - 5000;
+
+      expect(ids((await store.query({ contextId: "odd" })).items)).toEqual([
+        "task-3",
+        "task-1",
+      ]);
+      expect(
+        ids(
+          (await store.query({ contextId: "even", state: "completed" })).items
+        )
+      ).toEqual(["task-2", "task-0"]);
+      expect(
+        ids(
+          (
+            await store.query({
+              updatedAfter: new Date(start + 1000).toISOString(),
+              updatedBefore: new Date(start + 3000).toISOString(),
+            })
+          ).items
+        )
+      ).toEqual(["task-2", "task-1"]);
+    });
+
+    it("skips expired tasks", async () => {
+      await store.set("expiring", task("expiring"), 1);
+      vi.setSystemTime(Date.now() + 2000);
+
+      expect(ids((await store.query({ limit: 1 })).items)).toEqual(["task-4"]);
+    });
+
+    it("rejects invalid cursors and times", async () => {
+      await expect(store.query({ cursor: "not-a-cursor" })).rejects.toThrow(
+        "Invalid query cursor"
+      );
+      await expect(store.query({ updatedAfter: "yesterday" })).rejects.toThrow(
+        "Invalid query time yesterday"
+      );
+    });
+  });
+
+  describe("migrations", () => {
+    it("migrates a table of schema version 1", async () => {
+      const database = openDatabase();
+      database.exec(`
+        CREATE TABLE a2alite_schema_versions (table_name TEXT PRIMARY KEY, version INTEGER NOT NULL);
+        INSERT INTO a2alite_schema_versions VALUES ('tasks', 1);
+        CREATE TABLE tasks (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          context_id TEXT,
+          state TEXT,
+          updated_at INTEGER NOT NULL,
+          expires_at INTEGER
+        );
+      `);
+      database
+        .prepare(
+          "INSERT INTO tasks (key, value, context_id, state, updated_at) VALUES (?, ?, ?, ?, ?)"
+        )
+        .run(
+          "task-1",
+          JSON.stringify(task("task-1")),
+          "context-1",
+          "working",
+          1
+        );
+
+      const store = new SQLiteTaskStore({ database });
+      expect(await store.getVersioned("task-1")).toEqual({
+        value: task("task-1"),
+        version: "1",
+      });
+      expect(
+        database
+          .prepare(
+            "SELECT version FROM a2alite_schema_versions WHERE table_name = ?"
+          )
+          .get("tasks")
+      ).toEqual({ version: 2 });
+    });
+
+    it("keeps the tasks when a store is created again", async () => {
+      await store.set("task-1", task("task-1"));
+
+      expect(await new SQLiteTaskStore({ database }).get("task-1")).toEqual(
+        task("task-1")
+      );
+    });
+
+    it("keeps the tasks of different tables apart", async () => {
+      const other = new SQLiteTaskStore({ database, tableName: "other_tasks" });
+      await store.set("task-1", task("task-1"));
+
+      expect(await other.get("task-1")).toBeUndefined();
+    });
+
+    it("rejects tables of a newer schema version", () => {
+      database
+        .prepare(
+          "UPDATE a2alite_schema_versions SET version = 99 WHERE table_name = ?"
+        )
+        .run("tasks");
+
+      expect(() => new SQLiteTaskStore({ database })).toThrow(
+        "Table tasks has schema version 99, the latest supported version is 2"
+      );
+    });
+
+    it("rejects invalid table names", () => {
+      expect(
+        () =>
+          new SQLiteTaskStore({ database, tableName: "tasks; DROP TABLE x" })
+      ).toThrow("Invalid table name tasks; DROP TABLE x");
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import type { Task } from "../../../types/types.ts";
+import {
+  ITaskStore,
+  TaskQuery,
+  StoreQueryResult,
+  VersionedValue,
+} from "./index.ts";
+import {
+  decodeQueryCursor,
+  encodeQueryCursor,
+  getQueryLimit,
+  getQueryTimeRange,
+} from "./query.ts";
+
+/** A value bound to a SQL statement parameter */
+type SQLiteValue = string | number | bigint | null;
+
+/**
+ * A prepared SQL statement, as returned by `prepare` of better-sqlite3 or node:sqlite
+ */
+interface SQLiteStatement {
+  run(...params: SQLiteValue[]): unknown;
+  get(...params: SQLiteValue[]): unknown;
+  all(...params: SQLiteValue[]): unknown[];
+}
+
+/**
+ * A synchronous SQLite database handle. Both a better-sqlite3 `Database` and a node:sqlite `DatabaseSync` can be used
+ */
+interface SQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SQLiteStatement;
+}
+
+/**
+ * Options for creating a SQLiteTaskStore
+ */
+type SQLiteTaskStoreOptions = {
+  /** The database handle, e.g. `new Database("tasks.db")` of better-sqlite3 or `new DatabaseSync("tasks.db")` of node:sqlite */
+  database: SQLiteDatabase;
+  /** Name of the table the tasks are stored in (default: "tasks") */
+  tableName?: string;
+};
+
+/** A row of the tasks table */
+type TaskRow = {
+  key: string;
+  value: string;
+  version?: number;
+  updated_at?: number;
+  expires_at?: number | null;
+};
+
+/** Table recording the schema version of each table managed by a store */
+const SCHEMA_VERSIONS_TABLE = "a2alite_schema_versions";
+
+/**
+ * Schema migrations of the tasks table, applied in order.
+ * The schema version of a table is the number of migrations applied to it.
+ * Never change a released migration, add a new one instead.
+ */
+const MIGRATIONS: Array<(table: string) => string> = [
+  (table) => `
+    CREATE TABLE ${table} (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      context_id TEXT,
+      state TEXT,
+      updated_at INTEGER NOT NULL,
+      expires_at INTEGER
+    );
+    CREATE INDEX ${table}_context_id_idx ON ${table} (context_id, updated_at);
+    CREATE INDEX ${table}_state_idx ON ${table} (state, updated_at);
+    CREATE INDEX ${table}_updated_at_idx ON ${table} (updated_at);
+    CREATE INDEX ${table}_expires_at_idx ON ${table} (expires_at);
+  `,
+  (table) => `
+    ALTER TABLE ${table} ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  `,
+];
+
+/**
+ * SQLite implementation of ITaskStore
+ *
+ * SQLiteTaskStore persists tasks in a table of an embedded SQLite database. Besides the key/value operations,
+ * it keeps indexes on the context ID, the status state and the update time of the tasks,
+ * so `query` lists pages of tasks by context or state without enumerating the store.
+ * Every task has a version, incremented on every write, for compare-and-set updates.
+ * It supports TTL (time-to-live), expired tasks are deleted when they are read or enumerated.
+ * The table is created and migrated to the latest schema when the store is created.
+ */
+class SQLiteTaskStore implements ITaskStore {
+  private readonly database: SQLiteDatabase;
+  private readonly table: string;
+  private readonly statements: {
+    set: SQLiteStatement;
+    insert: SQLiteStatement;
+    update: SQLiteStatement;
+    get: SQLiteStatement;
+    delete: SQLiteStatement;
+    deleteExpiredKey: SQLiteStatement;
+    deleteExpired: SQLiteStatement;
+    clear: SQLiteStatement;
+    all: SQLiteStatement;
+  };
+
+  /**
+   * @param options - The database handle and table name
+   * @throws Error if the table name is not a valid SQL identifier
+   */
+  constructor({ database, tableName = "tasks" }: SQLiteTaskStoreOptions) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid table name ${tableName}`);
+    }
+    this.database = database;
+    this.table = tableName;
+    this.migrate();
+
+    const table = this.table;
+    const notExpired = "(expires_at IS NULL OR expires_at > ?)";
+    this.statements = {
+      set: database.prepare(
+        `INSERT INTO ${table} (key, value, context_id, state, updated_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value, context_id = excluded.context_id,
+         state = excluded.state, updated_at = excluded.updated_at, expires_at = excluded.expires_at,
+         version = version + 1`
+      ),
+      insert: database.prepare(
+        `INSERT INTO ${table} (key, value, context_id, state, updated_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (key) DO NOTHING`
+      ),
+      update: database.prepare(
+        `UPDATE ${table} SET value = ?, context_id = ?, state = ?, updated_at = ?, expires_at = ?,
+         version = version + 1
+         WHERE key = ? AND version = ? AND ${notExpired}`
+      ),
+      get: database.prepare(
+        `SELECT key, value, version, expires_at FROM ${table} WHERE key = ?`
+      ),
+      delete: database.prepare(`DELETE FROM ${table} WHERE key = ?`),
+      deleteExpiredKey: database.prepare(
+        `DELETE FROM ${table} WHERE key = ? AND expires_at IS NOT NULL AND expires_at <= ?`
+      ),
+      deleteExpired: database.prepare(
+        `DELETE FROM ${table} WHERE expires_at IS NOT NULL AND expires_at <= ?`
+      ),
+      clear: database.prepare(`DELETE FROM ${table}`),
+      all: database.prepare(
+        `SELECT key, value FROM ${table} WHERE ${notExpired} ORDER BY updated_at DESC, key`
+      ),
+    };
+  }
+
+  async set(key: string, value: Task, ttl?: number): Promise<void> {
+    this.statements.set.run(key, ...this.columns(value, ttl));
+  }
+
+  async get(key: string): Promise<Task | undefined> {
+    return (await this.getVersioned(key))?.value;
+  }
+
+  async getVersioned(key: string): Promise<VersionedValue<Task> | undefined> {
+    const row = this.statements.get.get(key) as TaskRow | undefined;
+    if (!row) return undefined;
+    if (row.expires_at && Number(row.expires_at) <= Date.now()) {
+      this.statements.delete.run(key);
+      return undefined;
+    }
+    return { value: JSON.parse(row.value), version: String(row.version) };
+  }
+
+  async compareAndSet(
+    key: string,
+    value: Task,
+    expectedVersion: string | undefined,
+    ttl?: number
+  ): Promise<boolean> {
+    const [json, contextId, state, updatedAt, expiresAt] = this.columns(
+      value,
+      ttl
+    );
+    let result: { changes?: unknown };
+    if (expectedVersion === undefined) {
+      // an expired task is replaced like a missing one
+      this.statements.deleteExpiredKey.run(key, updatedAt);
+      result = this.statements.insert.run(
+        key,
+        json,
+        contextId,
+        state,
+        updatedAt,
+        expiresAt
+      ) as { changes?: unknown };
+    } else {
+      const version = Number(expectedVersion);
+      if (!Number.isInteger(version)) return false;
+      // the version is checked and incremented by a single statement, so concurrent writers can not both succeed
+      result = this.statements.update.run(
+        json,
+        contextId,
+        state,
+        updatedAt,
+        expiresAt,
+        key,
+        version,
+        updatedAt
+      ) as { changes?: unknown };
+    }
+    return Number(result?.changes ?? 0) > 0;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const result = this.statements.delete.run(key) as { changes?: unknown };
+    return Number(result?.changes ?? 0) > 0;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.get(key)) !== undefined;
+  }
+
+  async clear(): Promise<void> {
+    this.statements.clear.run();
+  }
+
+  async keys(): Promise<string[]> {
+    return this.select(this.statements.all).map((row) => row.key);
+  }
+
+  async values(): Promise<Task[]> {
+    return this.select(this.statements.all).map((row) => JSON.parse(row.value));
+  }
+
+  async entries(): Promise<[string, Task][]> {
+    return this.select(this.statements.all).map((row) => [
+      row.key,
+      JSON.parse(row.value),
+    ]);
+  }
+
+  async query(query: TaskQuery): Promise<StoreQueryResult<Task>> {
+    const cursor =
+      query.cursor !== undefined ? decodeQueryCursor(query.cursor) : undefined;
+    const { updatedAfter, updatedBefore } = getQueryTimeRange(query);
+    const limit = getQueryLimit(query);
+
+    // build the filters, served by the indexes on context ID, state and update time
+    const conditions: string[] = [];
+    const params: SQLiteValue[] = [];
+    if (query.contextId !== undefined) {
+      conditions.push("context_id = ?");
+      params.push(query.contextId);
+    }
+    if (query.state !== undefined) {
+      conditions.push("state = ?");
+      params.push(query.state);
+    }
+    if (updatedAfter !== undefined) {
+      conditions.push("updated_at >= ?");
+      params.push(updatedAfter);
+    }
+    if (updatedBefore !== undefined) {
+      conditions.push("updated_at < ?");
+      params.push(updatedBefore);
+    }
+    if (cursor) {
+      // continue after the last task of the previous page
+      conditions.push("(updated_at < ? OR (updated_at = ? AND key > ?))");
+      params.push(cursor.updatedAt, cursor.updatedAt, cursor.key);
+    }
+    conditions.push("(expires_at IS NULL OR expires_at > ?)");
+    // fetch one more task than requested to know if there is a next page
+    const statement = this.database.prepare(
+      `SELECT key, value, updated_at FROM ${this.table} WHERE ${conditions.join(" AND ")}
+       ORDER BY updated_at DESC, key LIMIT ?`
+    );
+    const now = Date.now();
+    this.statements.deleteExpired.run(now);
+    const rows = statement.all(...params, now, limit + 1) as TaskRow[];
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => JSON.parse(row.value)),
+      nextCursor:
+        rows.length > limit && last
+          ? encodeQueryCursor({
+              updatedAt: Number(last.updated_at),
+              key: last.key,
+            })
+          : undefined,
+    };
+  }
+
+  /**
+   * Gets the column values of a task: value, context ID, state, update time and expiry time
+   * @private
+   */
+  private columns(
+    value: Task,
+    ttl?: number
+  ): [string, string | null, string | null, number, number | null] {
+    const now = Date.now();
+    let expiresAt: number | null = null;
+    if (ttl && ttl > 0) {
+      expiresAt = now + ttl * 1000;
+    }
+    return [
+      JSON.stringify(value),
+      value.contextId ?? null,
+      value.status?.state ?? null,
+      now,
+      expiresAt,
+    ];
+  }
+
+  /**
+   * Deletes the expired tasks and selects the rows of a statement, binding the current time as the last parameter
+   * @private
+   */
+  private select(statement: SQLiteStatement, ...params: SQLiteValue[]) {
+    const now = Date.now();
+    this.statements.deleteExpired.run(now);
+    return statement.all(...params, now) as TaskRow[];
+  }
+
+  /**
+   * Creates the table or migrates it to the latest schema
+   * @throws Error if the table has a newer schema than this store supports
+   * @private
+   */
+  private migrate() {
+    this.database.exec(
+      `CREATE TABLE IF NOT EXISTS ${SCHEMA_VERSIONS_TABLE} (table_name TEXT PRIMARY KEY, version INTEGER NOT NULL)`
+    );
+    // lock the database while migrating, so concurrent processes migrate the table only once
+    this.database.exec("BEGIN IMMEDIATE");
+    try {
+      const row = this.database
+        .prepare(
+          `SELECT version FROM ${SCHEMA_VERSIONS_TABLE} WHERE table_name = ?`
+        )
+        .get(this.table) as { version: number } | undefined;
+      const version = Number(row?.version ?? 0);
+      if (version > MIGRATIONS.length) {
+        throw new Error(
+          `Table ${this.table} has schema version ${version}, the latest supported version is ${MIGRATIONS.length}`
+        );
+      }
+      for (const migration of MIGRATIONS.slice(version)) {
+        this.database.exec(migration(this.table));
+      }
+      this.database
+        .prepare(
+          `INSERT INTO ${SCHEMA_VERSIONS_TABLE} (table_name, version) VALUES (?, ?)
+           ON CONFLICT (table_name) DO UPDATE SET version = excluded.version`
+        )
+        .run(this.table, MIGRATIONS.length);
+      this.database.exec("COMMIT");
+    } catch (error) {
+      this.database.exec("ROLLBACK");
+      throw error;
+    }
+  }
+}
+
+export type {
+  SQLiteValue,
+  SQLiteStatement,
+  SQLiteDatabase,
+  SQLiteTaskStoreOptions,
+};
+export { SQLiteTaskStore };
@@ -0,0 +1,170 @@
+import type { PushNotificationConfig, Task } from "../../types/types.ts";
+import {
+  PUSH_NOTIFICATION_SIGNATURE_HEADER,
+  PUSH_NOTIFICATION_TOKEN_HEADER,
+} from "../../utils/pushNotification.ts";
+import type { PushNotificationSigner } from "./signer.ts";
+
+/**
+ * Interface for delivering task updates to a client's push notification endpoint
+ *
+ * The A2A server calls the sender whenever a task with a registered
+ * push notification config changes state.
+ */
+interface IPushNotificationSender {
+  /**
+   * Delivers the task to the push notification endpoint described by the config
+   * @param task - The updated task to deliver
+   * @param config - The push notification config registered for the task
+   * @throws Error if the notification could not be delivered
+   */
+  send(task: Task, config: PushNotificationConfig): Promise<void>;
+}
+
+/**
+ * Options for the default push notification sender
+ */
+type PushNotificationSenderOptions = {
+  /** Maximum number of retries after the first failed attempt (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry in milliseconds, doubled on each retry (default: 500) */
+  initialBackoffMs?: number;
+  /** Upper bound for the delay between retries in milliseconds (default: 10000) */
+  maxBackoffMs?: number;
+  /** Timeout for a single delivery attempt in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Optional signer used to sign the notifications with a JWT */
+  signer?: PushNotificationSigner;
+};
+
+/**
+ * Checks if a failed delivery is worth retrying based on the response status
+ * @param status - The HTTP status code of the response
+ * @returns true for server errors, timeouts and rate limiting
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Default push notification sender that POSTs the task as JSON to the configured URL
+ *
+ * - The `token` of the config is sent in the `X-A2A-Notification-Token` header.
+ * - If the config has authentication credentials, they are sent in the `Authorization`
+ *   header using the first listed scheme (e.g. `Bearer <credentials>`).
+ * - If a signer is configured, the JWT signature of the body is sent in the
+ *   `X-A2A-Notification-Signature` header.
+ * - Failed deliveries are retried with exponential backoff.
+ * - Notifications for the same task are delivered in order.
+ */
+class PushNotificationSender implements IPushNotificationSender {
+  private readonly _maxRetries: number;
+  private readonly _initialBackoffMs: number;
+  private readonly _maxBackoffMs: number;
+  private readonly _timeoutMs: number;
+  private readonly _signer?: PushNotificationSigner;
+  /** Last pending delivery per task, used to keep notifications of a task in order */
+  private readonly _pendingDeliveries = new Map<string, Promise<void>>();
+
+  constructor({
+    maxRetries = 3,
+    initialBackoffMs = 500,
+    maxBackoffMs = 10000,
+    timeoutMs = 10000,
+    signer,
+  }: PushNotificationSenderOptions = {}) {
+    this._maxRetries = maxRetries;
+    this._initialBackoffMs = initialBackoffMs;
+    this._maxBackoffMs = maxBackoffMs;
+    this._timeoutMs = timeoutMs;
+    this._signer = signer;
+  }
+
+  async send(task: Task, config: PushNotificationConfig): Promise<void> {
+    // wait for any previous delivery of the same task to keep notifications in order
+    const previous = this._pendingDeliveries.get(task.id) ?? Promise.resolve();
+    const delivery = previous
+      .catch(() => {})
+      .then(() => this._deliverWithRetry(task, config));
+    this._pendingDeliveries.set(task.id, delivery);
+    try {
+      await delivery;
+    } finally {
+      if (this._pendingDeliveries.get(task.id) === delivery) {
+        this._pendingDeliveries.delete(task.id);
+      }
+    }
+  }
+
+  /**
+   * Builds the HTTP headers for a push notification request
+   * @param body - The serialized notification payload
+   * @param config - The push notification config
+   * @returns The request headers
+   * @protected
+   */
+  protected async buildHeaders(
+    body: string,
+    config: PushNotificationConfig
+  ): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (config.token) {
+      headers[PUSH_NOTIFICATION_TOKEN_HEADER] = config.token;
+    }
+    if (this._signer) {
+      headers[PUSH_NOTIFICATION_SIGNATURE_HEADER] =
+        await this._signer.sign(body);
+    }
+    const scheme = config.authentication?.schemes[0];
+    const credentials = config.authentication?.credentials;
+    if (scheme && credentials) {
+      headers["Authorization"] = `${scheme} ${credentials}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Delivers the notification, retrying failed attempts with exponential backoff
+   * @private
+   */
+  private async _deliverWithRetry(
+    task: Task,
+    config: PushNotificationConfig
+  ): Promise<void> {
+    const body = JSON.stringify(task);
+    let backoff = this._initialBackoffMs;
+    for (let attempt = 0; ; attempt++) {
+      let retryable = true;
+      let lastError: string;
+      try {
+        const response = await fetch(config.url, {
+          method: "POST",
+          headers: await this.buildHeaders(body, config),
+          body,
+          signal: AbortSignal.timeout(this._timeoutMs),
+        });
+        if (response.ok) {
+          return;
+        }
+        retryable = isRetryableStatus(response.status);
+        lastError = `${response.status} ${response.statusText}`;
+      } catch (error) {
+        // network errors and timeouts are retryable
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      if (!retryable || attempt >= this._maxRetries) {
+        throw new Error(
+          `Failed to deliver push notification for task ${task.id} to ${config.url}: ${lastError}`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, backoff));
+      backoff = Math.min(backoff * 2, this._maxBackoffMs);
+    }
+  }
+}
+
+export type { IPushNotificationSender, PushNotificationSenderOptions };
+export { PushNotificationSender };
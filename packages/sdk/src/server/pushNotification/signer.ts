@@ -0,0 +1,98 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  generateJwtKeyPair,
+  sha256Hex,
+  signJwt,
+  type JsonWebKeySet,
+  type JwtAlgorithm,
+} from "../../utils/jwt.ts";
+
+/**
+ * Options for creating a push notification signer
+ */
+type PushNotificationSignerOptions = {
+  /** The key pair used to sign push notifications */
+  keyPair: CryptoKeyPair;
+  /** The signing algorithm (default: "ES256") */
+  algorithm?: JwtAlgorithm;
+  /** The ID of the signing key, published in the JWKS. Defaults to a random uuid */
+  keyId?: string;
+};
+
+/**
+ * Signs push notification payloads with a JWT, so receivers can verify they were sent by the agent.
+ *
+ * The JWT contains the claims:
+ * - `iat`: the time the notification was signed, in seconds since epoch
+ * - `request_body_sha256`: the hex encoded SHA-256 hash of the notification body
+ *
+ * The public key is published as a JSON Web Key Set, served by `createHonoApp` at `/.well-known/jwks.json`.
+ */
+class PushNotificationSigner {
+  private readonly _keyPair: CryptoKeyPair;
+  private readonly _algorithm: JwtAlgorithm;
+  private readonly _keyId: string;
+
+  constructor({
+    keyPair,
+    algorithm = "ES256",
+    keyId = uuidv4(),
+  }: PushNotificationSignerOptions) {
+    this._keyPair = keyPair;
+    this._algorithm = algorithm;
+    this._keyId = keyId;
+  }
+
+  /**
+   * Creates a signer with a newly generated key pair
+   * @param options - Optional signing algorithm and key ID
+   * @returns The created signer
+   */
+  static async generate(
+    options: Omit<PushNotificationSignerOptions, "keyPair"> = {}
+  ): Promise<PushNotificationSigner> {
+    const keyPair = await generateJwtKeyPair(options.algorithm ?? "ES256");
+    return new PushNotificationSigner({ ...options, keyPair });
+  }
+
+  /**
+   * Signs a push notification body
+   * @param body - The serialized notification body
+   * @returns The compact JWT
+   */
+  async sign(body: string): Promise<string> {
+    return signJwt(
+      {
+        iat: Math.floor(Date.now() / 1000),
+        request_body_sha256: await sha256Hex(body),
+      },
+      this._keyPair.privateKey,
+      this._algorithm,
+      this._keyId
+    );
+  }
+
+  /**
+   * Gets the public keys used to verify the signed notifications
+   * @returns The JSON Web Key Set
+   */
+  async getJwks(): Promise<JsonWebKeySet> {
+    const publicKey = await crypto.subtle.exportKey(
+      "jwk",
+      this._keyPair.publicKey
+    );
+    return {
+      keys: [
+        {
+          ...publicKey,
+          kid: this._keyId,
+          alg: this._algorithm,
+          use: "sig",
+        },
+      ],
+    };
+  }
+}
+
+export type { PushNotificationSignerOptions };
+export { PushNotificationSigner };
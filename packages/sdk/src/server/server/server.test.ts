@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { AgentCard, JSONRPCRequest, Task } from "../../types/types.ts";
+import type { IAgentExecutor } from "../agent/executor.ts";
+import type { IStore } from "../providers/storage/index.ts";
+import { A2AServer } from "./server.ts";
+
+const agentCard: AgentCard = {
+  name: "Test agent",
+  description: "Agent used in tests",
+  url: "https://agent.example/a2a",
+  version: "1.0.0",
+  defaultInputModes: ["text/plain"],
+  defaultOutputModes: ["text/plain"],
+  skills: [],
+};
+
+// completes a task for every message
+const agentExecutor: IAgentExecutor = {
+  execute: async (context) => context.complete({}),
+};
+
+let requestId = 0;
+
+const call = async (
+  server: A2AServer,
+  method: string,
+  params: Record<string, any>,
+  principalId?: string
+) => {
+  const { response } = await server.handleRequest(
+    { jsonrpc: "2.0", id: ++requestId, method, params } as JSONRPCRequest,
+    undefined,
+    principalId ? { principal: { id: principalId } } : undefined
+  );
+  return response as {
+    result?: any;
+    error?: { code: number; message: string };
+  };
+};
+
+const createTask = async (
+  server: A2AServer,
+  principalId?: string,
+  contextId?: string
+): Promise<Task> => {
+  const { result } = await call(
+    server,
+    "message/send",
+    {
+      message: {
+        kind: "message",
+        role: "user",
+        messageId: `message-${++requestId}`,
+        ...(contextId && { contextId }),
+        parts: [{ kind: "text", text: "hi" }],
+      },
+    },
+    principalId
+  );
+  return result;
+};
+
+const listAll = async (
+  server: A2AServer,
+  params: Record<string, any>,
+  principalId?: string
+) => {
+  const pages: Task[][] = [];
+  let pageToken: string | undefined;
+  do {
+    const { result } = await call(
+      server,
+      "tasks/list",
+      { ...params, pageToken },
+      principalId
+    );
+    pages.push(result.tasks);
+    pageToken = result.nextPageToken;
+  } while (pageToken !== undefined);
+  return pages;
+};
+
+describe("A2AServer tasks/list", () => {
+  let server: A2AServer;
+
+  beforeEach(async () => {
+    server = new A2AServer({ agentCard, agentExecutor });
+    await server.start();
+  });
+
+  it("lists all tasks in pages", async () => {
+    const ids = new Set<string>();
+    for (let index = 0; index < 5; index++) {
+      ids.add((await createTask(server)).id);
+    }
+
+    const pages = await listAll(server, { pageSize: 2 });
+    expect(pages.map((page) => page.length)).toEqual([2, 2, 1]);
+    expect(new Set(pages.flat().map(({ id }) => id))).toEqual(ids);
+  });
+
+  it("lists only the tasks of the caller and fills the pages", async () => {
+    const aliceTasks = new Set<string>();
+    for (let index = 0; index < 3; index++) {
+      aliceTasks.add((await createTask(server, "alice")).id);
+      await createTask(server, "bob");
+    }
+
+    const pages = await listAll(server, { pageSize: 2 }, "alice");
+    expect(pages.map((page) => page.length)).toEqual([2, 1]);
+    expect(new Set(pages.flat().map(({ id }) => id))).toEqual(aliceTasks);
+    expect((await listAll(server, {})).flat()).toEqual([]);
+  });
+
+  it("filters by context and trims the history", async () => {
+    const task = await createTask(server, undefined, "context-1");
+    await createTask(server, undefined, "context-2");
+
+    const { result } = await call(server, "tasks/list", {
+      contextId: "context-1",
+      historyLength: 0,
+    });
+    expect(result.tasks.map(({ id }: Task) => id)).toEqual([task.id]);
+    expect(result.tasks[0].history).toEqual([]);
+    expect(result.nextPageToken).toBeUndefined();
+  });
+
+  it("rejects page tokens it did not issue", async () => {
+    const { error } = await call(server, "tasks/list", {
+      pageToken: "not-a-token",
+    });
+    expect(error).toMatchObject({
+      code: -32602,
+      message: "Invalid page token",
+    });
+  });
+
+  it("is unsupported if the task store can not list tasks", async () => {
+    const tasks = new Map<string, Task>();
+    const store: IStore<Task> = {
+      set: async (key, value) => void tasks.set(key, value),
+      get: async (key) => tasks.get(key),
+      delete: async (key) => tasks.delete(key),
+    };
+    const server = new A2AServer({
+      agentCard,
+      agentExecutor,
+      taskStoreFactory: () => store,
+    });
+    await server.start();
+
+    const { error } = await call(server, "tasks/list", {});
+    expect(error?.code).toBe(-32004);
+  });
+});
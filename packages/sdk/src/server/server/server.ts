@@ -1,31 +1,67 @@
+import type { z } from "zod/v4";
 import {
   JSONRPCServer,
   type HandlerResponse,
+  type JSONRPCBatch,
+  type JSONRPCMiddleware,
+  type JSONRPCRequestContext,
+  type StreamResponse,
 } from "../jsonRPC/jsonRpcServer.ts";
-import type { IStore } from "../providers/storage/index.ts";
+import {
+  isTaskStore,
+  type IStore,
+  type TaskQuery,
+  type StoreQueryResult,
+} from "../providers/storage/index.ts";
+import {
+  decodeQueryCursor,
+  getQueryLimit,
+  queryTaskEntries,
+} from "../providers/storage/query.ts";
 import type {
   TaskStoreFactory,
   StreamQueueFactory,
+  PushNotificationConfigStoreFactory,
+  TaskOwnerStoreFactory,
   AgentStreamEvent,
   AgentExecutionResult,
   AgentRequest,
 } from "../agent/types.ts";
 import type { IAgentExecutor } from "../agent/executor.ts";
 import { AgentExecutionContext } from "../agent/context.ts";
-import { InMemoryStore } from "../providers/storage/in_memory.ts";
+import {
+  InMemoryStore,
+  InMemoryTaskStore,
+} from "../providers/storage/in_memory.ts";
 import { InMemoryQueue } from "../providers/queue/in_memory.ts";
 import {
+  PushNotificationSender,
+  type IPushNotificationSender,
+} from "../pushNotification/sender.ts";
+import type { PushNotificationSigner } from "../pushNotification/signer.ts";
+import type { JsonWebKeySet } from "../../utils/jwt.ts";
+import type { Principal } from "../authentication/authenticators.ts";
+import {
+  contentTypeNotSupportedError,
   internalError,
   invalidAgentResponseError,
+  invalidParamsError,
   pushNotificationNotSupportedError,
+  taskNotCancelableError,
+  taskConflictError,
   taskNotFoundError,
+  unsupportedOperationError,
 } from "../../utils/errors.ts";
 import {
   CancelTaskRequest,
+  GetTaskRequest,
   GetTaskPushNotificationConfigRequest,
   isJSONRPCError,
+  JSONRPCError,
   JSONRPCRequest,
   JSONRPCResponse,
+  ListTasksRequest,
+  PushNotificationConfig,
   SetTaskPushNotificationConfigRequest,
   Task,
   TaskPushNotificationConfig,
@@ -37,7 +73,52 @@ import {
   SendMessageRequest,
   SendStreamingMessageRequest,
 } from "../../types/types.ts";
-import { isEndOfStream } from "../agent/stream.ts";
+import { isEndOfStream, type AgentTaskStream } from "../agent/stream.ts";
+import { isFinalTaskState } from "../../utils/taskState.ts";
+import { getPartMimeType, isMimeTypeAccepted } from "../../utils/mime.ts";
+
+/**
+ * Returns a copy of the task with its history trimmed to the most recent messages
+ * @param task - The task to trim
+ * @param historyLength - Optional number of most recent history messages to keep
+ * @returns The task with trimmed history, or the original task if no length is provided
+ */
+function trimTaskHistory(task: Task, historyLength?: number): Task {
+  if (historyLength === undefined || !task.history) {
+    return task;
+  }
+  const length = Math.max(0, Math.floor(historyLength));
+  return {
+    ...task,
+    history: length > 0 ? task.history.slice(-length) : [],
+  };
+}
+
+/**
+ * Returns a push notification config for a task with the credentials masked
+ * @param taskId - The ID of the task the config is registered for
+ * @param config - The push notification config
+ * @returns The task push notification config safe to return to clients
+ */
+function maskPushNotificationConfig(
+  taskId: string,
+  config: PushNotificationConfig
+): TaskPushNotificationConfig {
+  return {
+    taskId,
+    pushNotificationConfig: {
+      ...config,
+      // Mask any sensitive credentials in the response
+      authentication: config.authentication
+        ? {
+            schemes: config.authentication.schemes,
+            // Omit credentials from response
+            credentials: undefined,
+          }
+        : undefined,
+    },
+  };
+}
 
 /**
  * Placeholder interface for telemetry integration
@@ -55,6 +136,47 @@ interface Logger {
   // Placeholder for logger integration
 }
 
+/**
+ * Handler of a custom method registered with `A2AServer.registerMethod`
+ * @param params - The request params, validated against the method's params schema
+ * @param context - The request context with the request, abort signal and extension data
+ * @returns The result of the method. Throw a JSON-RPC error (e.g. `invalidParamsError()`) to respond with an error
+ */
+type MethodHandler<S extends z.ZodType> = (
+  params: z.infer<S>,
+  context: JSONRPCRequestContext
+) => Promise<unknown> | unknown;
+
+/**
+ * Decides if a caller may access a task owned by another principal, e.g. to share tasks within a tenant
+ * @param principal - The authenticated caller, or undefined if the request is not authenticated
+ * @param owner - The principal that created the task
+ * @param taskId - The ID of the task
+ * @returns true if the caller may access the task
+ */
+type TaskAccessPolicy = (
+  principal: Principal | undefined,
+  owner: Principal,
+  taskId: string
+) => Promise<boolean> | boolean;
+
+/**
+ * Default task access policy: only the principal that created a task may access it
+ */
+/** Result of waiting for a task lock that was not released in time */
+const TASK_LOCK_TIMEOUT = Symbol("task-lock-timeout");
+
+const ownerOnlyTaskAccessPolicy: TaskAccessPolicy = (principal, owner) =>
+  principal !== undefined && principal.id === owner.id;
+
+/**
+ * Stored version of a task, read before a message continuing the task is handled
+ */
+type TaskVersion = {
+  taskId: string;
+  version: string;
+};
+
 /**
  * Configuration parameters for creating an A2AServer instance
  */
@@ -63,10 +185,28 @@ interface A2AServerParams {
   agentExecutor: IAgentExecutor;
   /** Agent card containing metadata about the agent's capabilities */
   agentCard: AgentCard;
+  /** Optional extended agent card served only to authenticated clients, e.g. with additional skills. Sets `supportsAuthenticatedExtendedCard` of the public card */
+  extendedAgentCard?: AgentCard;
   /** Factory function to create task storage instances. Defaults to InMemoryStore */
   taskStoreFactory?: TaskStoreFactory;
   /** Factory function to create stream queue instances. Defaults to InMemoryQueue */
   queueFactory?: StreamQueueFactory;
+  /** Factory function to create push notification config storage instances. Defaults to InMemoryStore */
+  pushNotificationConfigStoreFactory?: PushNotificationConfigStoreFactory;
+  /** Factory function to create storage instances for the principals owning the tasks. Defaults to InMemoryStore */
+  taskOwnerStoreFactory?: TaskOwnerStoreFactory;
+  /** Decides if a caller may access a task created by another principal. Defaults to allowing the owner only */
+  taskAccessPolicy?: TaskAccessPolicy;
+  /** Sender used to deliver push notifications when the agent card enables them. Defaults to PushNotificationSender */
+  pushNotificationSender?: IPushNotificationSender;
+  /** Optional signer for push notifications. Its public keys are served at the JWKS endpoint and the default sender signs with it */
+  pushNotificationSigner?: PushNotificationSigner;
+  /** Optional callback invoked when a push notification could not be delivered. Delivery errors are ignored without it */
+  onPushNotificationError?: (error: unknown, task: Task) => void;
+  /** Optional time in milliseconds after which a task stream without new events fails the task. Disabled by default */
+  streamIdleTimeoutMs?: number;
+  /** Time in milliseconds a message continuing a task waits for the previous messages and the running stream of the task, before it is rejected with a TaskConflictError. Defaults to 30000 */
+  taskLockTimeoutMs?: number;
   /** Optional telemetry provider for monitoring and metrics */
   telemetryProvider?: TelemetryProvider;
   /** Optional logger for debugging and audit trails */
@@ -79,14 +219,27 @@ interface A2AServerParams {
  */
 class A2AServer {
   private readonly _jsonRpcServer = new JSONRPCServer();
-  private readonly _taskStreamManager = new TaskStreamManager();
+  private readonly _taskStreamManager: TaskStreamManager;
   private readonly _taskStore: IStore<Task>;
+  private readonly _pushNotificationConfigStore: IStore<PushNotificationConfig>;
+  private readonly _taskOwnerStore: IStore<Principal>;
+  private readonly _taskAccessPolicy: TaskAccessPolicy;
+  private readonly _pushNotificationSender: IPushNotificationSender;
+  private readonly _pushNotificationSigner?: PushNotificationSigner;
+  private readonly _onPushNotificationError?: (
+    error: unknown,
+    task: Task
+  ) => void;
   private readonly _queueFactory: StreamQueueFactory; // Factory for creating new queues
   private readonly _agentExecutor: IAgentExecutor;
   private readonly _telemetryProvider?: TelemetryProvider;
   private readonly _logger?: Logger;
   private _isRunning: boolean = false;
   private readonly _agentCard: AgentCard;
+  private readonly _extendedAgentCard?: AgentCard;
+  // the last pending message of each task, messages continuing the same task are handled one after another
+  private readonly _taskLocks = new Map<string, Promise<void>>();
+  private readonly _taskLockTimeoutMs: number;
 
   /**
    * Creates a new A2AServer instance
@@ -95,18 +248,387 @@ class A2AServer {
   constructor({
     agentExecutor,
     agentCard,
-    taskStoreFactory = () => new InMemoryStore<Task>(),
+    extendedAgentCard,
+    taskStoreFactory = () => new InMemoryTaskStore(),
     queueFactory = () => new InMemoryQueue<AgentStreamEvent>(),
+    pushNotificationConfigStoreFactory = () =>
+      new InMemoryStore<PushNotificationConfig>(),
+    taskOwnerStoreFactory = () => new InMemoryStore<Principal>(),
+    taskAccessPolicy = ownerOnlyTaskAccessPolicy,
+    pushNotificationSigner,
+    pushNotificationSender = new PushNotificationSender({
+      signer: pushNotificationSigner,
+    }),
+    onPushNotificationError,
+    streamIdleTimeoutMs,
+    taskLockTimeoutMs = 30000,
     telemetryProvider,
     logger,
   }: A2AServerParams) {
     this._taskStore = taskStoreFactory();
+    this._pushNotificationConfigStore = pushNotificationConfigStoreFactory();
+    this._taskOwnerStore = taskOwnerStoreFactory();
+    this._taskAccessPolicy = taskAccessPolicy;
+    this._pushNotificationSender = pushNotificationSender;
+    this._pushNotificationSigner = pushNotificationSigner;
+    this._onPushNotificationError = onPushNotificationError;
+    this._taskStreamManager = new TaskStreamManager({
+      taskStore: this._taskStore,
+      onTaskUpdate: (task, previousTask) =>
+        this._onTaskUpdate(task, previousTask),
+      idleTimeoutMs: streamIdleTimeoutMs,
+    });
+    this._taskLockTimeoutMs = taskLockTimeoutMs;
     this._queueFactory = queueFactory;
     this._agentExecutor = agentExecutor;
     this._telemetryProvider = telemetryProvider;
     this._logger = logger;
     this.registerHandlers();
-    this._agentCard = agentCard;
+    // advertise the extended card in the public card
+    this._agentCard = extendedAgentCard
+      ? { ...agentCard, supportsAuthenticatedExtendedCard: true }
+      : agentCard;
+    this._extendedAgentCard = extendedAgentCard;
+  }
+
+  /**
+   * Whether the agent card enables push notifications
+   * @private
+   */
+  private get _supportsPushNotifications(): boolean {
+    return this._agentCard.capabilities?.pushNotifications === true;
+  }
+
+  /**
+   * Input modes supported by the agent: the default input modes and the input modes of its skills
+   * @private
+   */
+  private get _inputModes(): string[] {
+    return [
+      ...new Set([
+        ...this._agentCard.defaultInputModes,
+        ...this._agentCard.skills.flatMap((skill) => skill.inputModes ?? []),
+      ]),
+    ];
+  }
+
+  /**
+   * Output modes supported by the agent: the default output modes and the output modes of its skills
+   * @private
+   */
+  private get _outputModes(): string[] {
+    return [
+      ...new Set([
+        ...this._agentCard.defaultOutputModes,
+        ...this._agentCard.skills.flatMap((skill) => skill.outputModes ?? []),
+      ]),
+    ];
+  }
+
+  /**
+   * Checks that the agent can respond in one of the output modes accepted by the client.
+   * Requests are accepted if the client or the agent does not specify output modes.
+   * @param acceptedOutputModes - Optional output modes accepted by the client
+   * @returns A ContentTypeNotSupportedError if none of the agent output modes is accepted, undefined otherwise
+   * @private
+   */
+  private _checkOutputModes(
+    acceptedOutputModes?: string[]
+  ): JSONRPCError | undefined {
+    const outputModes = this._outputModes;
+    if (!acceptedOutputModes?.length || !outputModes.length) {
+      return undefined;
+    }
+    if (
+      !outputModes.some((mode) => isMimeTypeAccepted(mode, acceptedOutputModes))
+    ) {
+      return contentTypeNotSupportedError(
+        "None of the accepted output modes is supported by the agent",
+        { acceptedOutputModes, supportedOutputModes: outputModes }
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Waits until the previous messages continuing a task are handled and the stream of the task reached
+   * a final or interrupted state, then locks the task.
+   * Messages continuing the same task are handled one after another, so they do not overwrite each other's updates.
+   * The access to the task is checked first, so callers can not hold up or probe the tasks of other principals
+   * @param taskId - Optional ID of the task continued by a message, nothing is locked without it
+   * @param extension - Optional extension data carrying the authenticated principal
+   * @returns A function releasing the lock, it can be called more than once
+   * @throws TaskNotFoundError if the caller may not access the task
+   * @throws TaskConflictError if the task is not released within the task lock timeout
+   * @private
+   */
+  private async _lockTask(
+    taskId?: string,
+    extension?: Record<string, any>
+  ): Promise<() => void> {
+    if (!taskId) {
+      return () => {};
+    }
+    if (!(await this._mayAccessTask(taskId, extension))) {
+      throw taskNotFoundError(`Task ${taskId} not found`);
+    }
+    const previous = this._taskLocks.get(taskId) ?? Promise.resolve();
+    let unlock!: () => void;
+    const unlocked = new Promise<void>((resolve) => {
+      unlock = resolve;
+    });
+    const current = previous.then(() => unlocked);
+    this._taskLocks.set(taskId, current);
+    const release = () => {
+      unlock();
+      if (this._taskLocks.get(taskId) === current) {
+        this._taskLocks.delete(taskId);
+      }
+    };
+
+    const acquired = previous.then(() =>
+      this._taskStreamManager.getConsumer(taskId)?.waitUntilFinished()
+    );
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<typeof TASK_LOCK_TIMEOUT>((resolve) => {
+      timer = setTimeout(
+        () => resolve(TASK_LOCK_TIMEOUT),
+        this._taskLockTimeoutMs
+      );
+    });
+    try {
+      if ((await Promise.race([acquired, timeout])) === TASK_LOCK_TIMEOUT) {
+        // give up the turn, the following messages still wait for the previous ones
+        release();
+        throw taskConflictError(
+          `Task ${taskId} is still being processed, retry the message later`
+        );
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+    return release;
+  }
+
+  /**
+   * Gets the stored version of a task, if the task store supports compare-and-set updates.
+   * Read it before the task is loaded, to detect updates by other servers sharing the task store
+   * @param taskId - Optional ID of the task continued by a message
+   * @returns The version of the task, or undefined if there is none
+   * @private
+   */
+  private async _getTaskVersion(
+    taskId?: string
+  ): Promise<TaskVersion | undefined> {
+    if (!taskId || !this._taskStore.getVersioned) {
+      return undefined;
+    }
+    const versioned = await this._taskStore.getVersioned(taskId);
+    return versioned && { taskId, version: versioned.version };
+  }
+
+  /**
+   * Persists a task in the task store and notifies about the update
+   * @param task - The task to store
+   * @param expectedVersion - Optional version of the continued task read before it was loaded.
+   * If it is the version of this task, the task is only stored if no other request updated it since
+   * @param onSaved - Optional callback run once the task is stored, before the update is notified
+   * @throws TaskConflictError if the task was updated by another request
+   * @private
+   */
+  private async _saveTask(
+    task: Task,
+    expectedVersion?: TaskVersion,
+    onSaved?: () => Promise<void>
+  ): Promise<void> {
+    const previousTask = await this._taskStore.get(task.id);
+    if (expectedVersion?.taskId === task.id && this._taskStore.compareAndSet) {
+      const saved = await this._taskStore.compareAndSet(
+        task.id,
+        task,
+        expectedVersion.version
+      );
+      if (!saved) {
+        throw taskConflictError(
+          `Task ${task.id} was updated by another request, retry the message with the updated task`
+        );
+      }
+    } else {
+      await this._taskStore.set(task.id, task);
+    }
+    await onSaved?.();
+    await this._onTaskUpdate(task, previousTask);
+  }
+
+  /**
+   * Persists the task resulting from a message, then registers the push notification config
+   * of the message and the owner of the task, so a rejected task leaves neither behind
+   * @param request - The message request
+   * @param task - The task resulting from the message
+   * @param expectedVersion - Optional version of the continued task read before it was loaded, see `_saveTask`
+   * @param extension - Optional extension data carrying the authenticated principal
+   * @throws TaskConflictError if the task was updated by another request
+   * @private
+   */
+  private async _saveMessageTask(
+    request: SendMessageRequest | SendStreamingMessageRequest,
+    task: Task,
+    expectedVersion?: TaskVersion,
+    extension?: Record<string, any>
+  ): Promise<void> {
+    await this._saveTask(task, expectedVersion, async () => {
+      await this._registerPushNotificationConfig(request, task.id);
+      await this._registerTaskOwner(task.id, extension);
+    });
+  }
+
+  /**
+   * Stores the initial task of a task stream resulting from a message.
+   * If the task can not be stored, the stream is canceled, so the executor stops working on a task nobody consumes
+   * @param request - The message request
+   * @param result - The task stream and its initial task
+   * @param expectedVersion - Optional version of the continued task read before it was loaded, see `_saveTask`
+   * @param extension - Optional extension data carrying the authenticated principal
+   * @throws TaskConflictError if the task was updated by another request
+   * @private
+   */
+  private async _saveStreamTask(
+    request: SendMessageRequest | SendStreamingMessageRequest,
+    {
+      taskStream,
+      currentTask,
+    }: { taskStream: AgentTaskStream; currentTask: Task },
+    expectedVersion?: TaskVersion,
+    extension?: Record<string, any>
+  ): Promise<void> {
+    try {
+      if (
+        taskStream.getTask().id !== currentTask.id ||
+        taskStream.getTask().contextId !== currentTask.contextId
+      ) {
+        throw new Error(
+          "Task mismatch. The task in stream does not match the current task"
+        );
+      }
+      // the consumer keeps the stored task updated as the stream progresses
+      await this._saveMessageTask(
+        request,
+        currentTask,
+        expectedVersion,
+        extension
+      );
+    } catch (error) {
+      await this._cancelTaskStream(taskStream);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels a task stream that is not consumed, aborting the execution of the executor
+   * @param taskStream - The task stream
+   * @private
+   */
+  private async _cancelTaskStream(taskStream: AgentTaskStream): Promise<void> {
+    try {
+      await taskStream.cancel();
+    } catch (error) {
+      // the stream is closed already, e.g. the executor finished it
+    }
+  }
+
+  /**
+   * Called whenever a stored task is updated, sends a push notification if the task state changed
+   * @param task - The updated task
+   * @param previousTask - The task before the update, if it was stored
+   * @private
+   */
+  private async _onTaskUpdate(task: Task, previousTask?: Task): Promise<void> {
+    if (previousTask?.status.state === task.status.state) {
+      return;
+    }
+    if (!this._supportsPushNotifications) {
+      return;
+    }
+    const config = await this._pushNotificationConfigStore.get(task.id);
+    if (!config) {
+      return;
+    }
+    // deliver in the background, so retries do not block task processing
+    this._pushNotificationSender.send(task, config).catch((error) => {
+      this._onPushNotificationError?.(error, task);
+    });
+  }
+
+  /**
+   * Stores the push notification config received with a message for the resulting task
+   * @param request - The message request that may contain a push notification config
+   * @param taskId - The ID of the task resulting from the message
+   * @private
+   */
+  private async _registerPushNotificationConfig(
+    request: SendMessageRequest | SendStreamingMessageRequest,
+    taskId: string
+  ): Promise<void> {
+    const config = request.params.configuration?.pushNotificationConfig;
+    if (config) {
+      await this._pushNotificationConfigStore.set(taskId, config);
+    }
+  }
+
+  /**
+   * Records the authenticated principal of the request creating a task as the owner of the task
+   * @param taskId - The ID of the task resulting from the message
+   * @param extension - Optional extension data carrying the authenticated principal
+   * @private
+   */
+  private async _registerTaskOwner(
+    taskId: string,
+    extension?: Record<string, any>
+  ): Promise<void> {
+    const principal: Principal | undefined = extension?.principal;
+    if (principal && !(await this._taskOwnerStore.get(taskId))) {
+      await this._taskOwnerStore.set(taskId, principal);
+    }
+  }
+
+  /**
+   * Checks if the caller may access a task.
+   * Tasks created by authenticated principals are only accessible as allowed by the task access policy.
+   * Tasks without an owner are only accessible to anonymous callers, so a task whose owner record is missing,
+   * e.g. after a restart with a durable task store and an in-memory owner store, is not exposed to every principal
+   * @param taskId - The ID of the task
+   * @param extension - Optional extension data carrying the authenticated principal
+   * @returns true if the caller may access the task
+   * @private
+   */
+  private async _mayAccessTask(
+    taskId: string,
+    extension?: Record<string, any>
+  ): Promise<boolean> {
+    const principal: Principal | undefined = extension?.principal;
+    const owner = await this._taskOwnerStore.get(taskId);
+    if (!owner) {
+      return principal === undefined;
+    }
+    return this._taskAccessPolicy(principal, owner, taskId);
+  }
+
+  /**
+   * Gets a task from the task store if the caller may access it, see `_mayAccessTask`
+   * @param taskId - The ID of the task
+   * @param extension - Optional extension data carrying the authenticated principal
+   * @returns The task, or undefined if the task does not exist or the caller may not access it
+   * @private
+   */
+  private async _getAccessibleTask(
+    taskId: string,
+    extension?: Record<string, any>
+  ): Promise<Task | undefined> {
+    const task = await this._taskStore.get(taskId);
+    if (!task || !(await this._mayAccessTask(taskId, extension))) {
+      return undefined;
+    }
+    return task;
   }
 
   /**
@@ -122,10 +644,46 @@ class A2AServer {
     requestAbortSignal?: AbortSignal,
     extension?: Record<string, any>
   ): Promise<AgentExecutionResult> {
+    // Reject push notification configs if the agent does not support them
+    if (
+      request.params.configuration?.pushNotificationConfig &&
+      !this._supportsPushNotifications
+    ) {
+      return pushNotificationNotSupportedError();
+    }
+
+    // Reject message parts the agent can not accept
+    const inputModes = this._inputModes;
+    if (inputModes.length) {
+      const unsupported = request.params.message.parts
+        .map(getPartMimeType)
+        .filter((mimeType) => !isMimeTypeAccepted(mimeType, inputModes));
+      if (unsupported.length) {
+        return contentTypeNotSupportedError(
+          `Content type ${unsupported[0]} is not supported by the agent`,
+          {
+            unsupportedInputModes: unsupported,
+            supportedInputModes: inputModes,
+          }
+        );
+      }
+    }
+
+    // Reject the request if the agent can not respond in any of the accepted output modes
+    const acceptedOutputModes =
+      request.params.configuration?.acceptedOutputModes;
+    const outputModesError = this._checkOutputModes(acceptedOutputModes);
+    if (outputModesError) {
+      return outputModesError;
+    }
+
     // Retrieve  and resolve any existing task
     let task: Task | undefined;
     if (request.params.message.taskId) {
-      task = await this._taskStore.get(request.params.message.taskId);
+      task = await this._getAccessibleTask(
+        request.params.message.taskId,
+        extension
+      );
       if (!task) {
         return taskNotFoundError(
           `Task ${request.params.message.taskId} not found`
@@ -139,7 +697,7 @@ class A2AServer {
       referencedTasks = (
         await Promise.all(
           request.params.message.referenceTaskIds.map((taskId) =>
-            this._taskStore.get(taskId)
+            this._getAccessibleTask(taskId, extension)
           )
         )
       ).filter((task) => task !== undefined);
@@ -154,7 +712,10 @@ class A2AServer {
       agentRequest,
       this._queueFactory,
       task,
-      referencedTasks
+      referencedTasks,
+      undefined,
+      acceptedOutputModes,
+      (query) => this._listAccessibleTasks(query, extension)
     );
 
     // Call agentExecutor.execute and handle AgentExecutionResult
@@ -175,7 +736,16 @@ class A2AServer {
     requestAbortSignal?: AbortSignal,
     extension?: Record<string, any>
   ): Promise<JSONRPCResponse> {
+    let releaseTask = () => {};
     try {
+      releaseTask = await this._lockTask(
+        request.params.message.taskId,
+        extension
+      );
+      const taskVersion = await this._getTaskVersion(
+        request.params.message.taskId
+      );
+
       // Handle the message
       const result = await this._handleMessage(
         request,
@@ -197,37 +767,38 @@ class A2AServer {
       if (result.kind === "task" || result.kind === "message") {
         // Store the task in the store if it is a task
         if (result.kind === "task") {
-          await this._taskStore.set(result.id, result);
+          await this._saveMessageTask(request, result, taskVersion, extension);
         }
         // Respond with the result
         return {
           jsonrpc: "2.0",
           id: request.id,
-          result: result,
+          result:
+            result.kind === "task"
+              ? trimTaskHistory(
+                  result,
+                  request.params.configuration?.historyLength
+                )
+              : result,
         };
       }
 
       // If stream: respond with initial task, consume EventQueue and stream updates
       if (result.kind === "stream") {
         let { taskStream, currentTask } = result;
-        if (
-          taskStream.getTask().id !== currentTask.id ||
-          taskStream.getTask().contextId !== currentTask.contextId
-        ) {
-          throw new Error(
-            "Task mismatch. The task in stream does not match the current task"
-          );
-        }
+        // store the initial task
+        await this._saveStreamTask(request, result, taskVersion, extension);
+
         // run the consumer
         const ongoingConsumer = this._taskStreamManager.getConsumer(
           taskStream.getTask().id
         );
         if (!ongoingConsumer) {
           // if there is no consumer, create one and start it
+          // the consumer outlives the request, so it is not bound to the request abort signal
           let consumer = this._taskStreamManager.createConsumer(
             taskStream,
-            isEndOfStream,
-            requestAbortSignal
+            isEndOfStream
           );
           consumer.consume();
         }
@@ -236,7 +807,10 @@ class A2AServer {
         return {
           jsonrpc: "2.0",
           id: request.id,
-          result: currentTask,
+          result: trimTaskHistory(
+            currentTask,
+            request.params.configuration?.historyLength
+          ),
         };
       }
       return {
@@ -254,6 +828,8 @@ class A2AServer {
               error instanceof Error ? error.message : undefined
             ),
       };
+    } finally {
+      releaseTask();
     }
   }
 
@@ -262,26 +838,39 @@ class A2AServer {
    * @param request - The streaming message request
    * @param requestAbortSignal - Optional abort signal for canceling the request
    * @param extension - Optional extension data passed to the agent
-   * @returns AsyncGenerator yielding JSON-RPC responses as they become available
+   * @returns AsyncGenerator yielding JSON-RPC responses as they become available, identified by their event sequence number
    * @private
    */
   private async *_handleMessageStream(
     request: SendStreamingMessageRequest,
     requestAbortSignal?: AbortSignal,
     extension?: Record<string, any>
-  ): AsyncGenerator<JSONRPCResponse> {
+  ): AsyncGenerator<StreamResponse> {
+    // the task is released before yielding, so a slow client does not hold it
+    let releaseTask = () => {};
     try {
+      releaseTask = await this._lockTask(
+        request.params.message.taskId,
+        extension
+      );
+      const taskVersion = await this._getTaskVersion(
+        request.params.message.taskId
+      );
+
       const result = await this._handleMessage(
         request,
         requestAbortSignal,
         extension
       );
       if (isJSONRPCError(result)) {
+        releaseTask();
         // return an error
         yield {
-          jsonrpc: "2.0",
-          id: request.id,
-          error: result,
+          response: {
+            jsonrpc: "2.0",
+            id: request.id,
+            error: result,
+          },
         };
         return;
       }
@@ -290,13 +879,22 @@ class A2AServer {
       if (result.kind === "task" || result.kind === "message") {
         // Store the task in the store if it is a task
         if (result.kind === "task") {
-          await this._taskStore.set(result.id, result);
+          await this._saveMessageTask(request, result, taskVersion, extension);
         }
+        releaseTask();
         // return the result
         yield {
-          jsonrpc: "2.0",
-          id: request.id,
-          result: result,
+          response: {
+            jsonrpc: "2.0",
+            id: request.id,
+            result:
+              result.kind === "task"
+                ? trimTaskHistory(
+                    result,
+                    request.params.configuration?.historyLength
+                  )
+                : result,
+          },
         };
         return;
       }
@@ -304,45 +902,243 @@ class A2AServer {
       // If stream: yield the current task, consume EventQueue and stream updates
       if (result.kind === "stream") {
         let { taskStream, currentTask } = result;
-        // yield the current task as initial response
-        yield {
-          jsonrpc: "2.0",
-          id: request.id,
-          result: currentTask,
-        };
+        // store the initial task
+        await this._saveStreamTask(request, result, taskVersion, extension);
 
-        // if there is no consumer, create one and consume otherwise tap into the existing consumer
+        // the initial response precedes the first event of this stream
+        const initialEventId = String(
+          this._taskStreamManager.getLastSeq(currentTask.id)
+        );
+        // if there is no consumer, create one and consume otherwise tap into the existing consumer.
+        // aborting the request only stops this tapper, the task keeps being consumed.
+        // the consumer exists before the task is released, so the next message waits for it
         const eventConsumer = this._taskStreamManager.tapOrConsume(
           taskStream,
           isEndOfStream,
           requestAbortSignal
         );
+        releaseTask();
 
-        // yield the events as they come
-        for await (const event of eventConsumer) {
-          yield {
+        // yield the current task as initial response
+        yield {
+          response: {
             jsonrpc: "2.0",
             id: request.id,
-            result: event,
+            result: trimTaskHistory(
+              currentTask,
+              request.params.configuration?.historyLength
+            ),
+          },
+          eventId: initialEventId,
+        };
+
+        // yield the events as they come, identified by their sequence number
+        for await (const { seq, event } of eventConsumer) {
+          yield {
+            response: {
+              jsonrpc: "2.0",
+              id: request.id,
+              result: event,
+            },
+            eventId: String(seq),
           };
         }
       }
     } catch (error) {
+      releaseTask();
       yield {
+        response: {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: isJSONRPCError(error)
+            ? error
+            : invalidAgentResponseError(
+                error instanceof Error ? error.message : undefined
+              ),
+        },
+      };
+    } finally {
+      releaseTask();
+    }
+  }
+
+  /**
+   * Handles requests to retrieve the current state of a task from the task store
+   * @param request - The task get request
+   * @param requestAbortSignal - Optional abort signal for canceling the request
+   * @param extension - Optional extension data
+   * @returns Promise resolving to a JSON-RPC response with the task or error
+   * @private
+   */
+  private async _handleTaskGet(
+    request: GetTaskRequest,
+    requestAbortSignal?: AbortSignal,
+    extension?: Record<string, any>
+  ): Promise<JSONRPCResponse> {
+    try {
+      // Get the task from the store
+      const taskId = request.params.id;
+      const task = await this._getAccessibleTask(taskId, extension);
+      if (!task) {
+        return {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: taskNotFoundError(`Task with ID ${taskId} not found`),
+        };
+      }
+
+      // Return the task with the requested history length
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: trimTaskHistory(task, request.params.historyLength),
+      };
+    } catch (error) {
+      return {
         jsonrpc: "2.0",
         id: request.id,
         error: isJSONRPCError(error)
           ? error
-          : invalidAgentResponseError(
+          : internalError(error instanceof Error ? error.message : undefined),
+      };
+    }
+  }
+
+  /**
+   * Queries the task store, falling back to enumerating its entries if it does not support queries
+   * @param query - The task query
+   * @returns A page of matching tasks, or undefined if the task store can not list tasks
+   * @private
+   */
+  private async _queryTasks(
+    query: TaskQuery
+  ): Promise<StoreQueryResult<Task> | undefined> {
+    if (isTaskStore(this._taskStore)) {
+      return this._taskStore.query(query);
+    }
+    if (!this._taskStore.entries) {
+      return undefined;
+    }
+    // without stored update times, order the tasks by the time of their status
+    const entries = await this._taskStore.entries();
+    return queryTaskEntries(
+      entries.map(([key, task]) => ({
+        key,
+        value: task,
+        updatedAt: Date.parse(task.status?.timestamp ?? "") || 0,
+      })),
+      query
+    );
+  }
+
+  /**
+   * Lists the tasks matching a query that the caller may access.
+   * Tasks the caller may not access are left out and the following tasks are fetched in their place,
+   * so only the last page contains fewer tasks than the query limit
+   * @param query - The task query
+   * @param extension - Optional extension data carrying the authenticated principal
+   * @returns A page of accessible tasks, or undefined if the task store can not list tasks
+   * @throws Error if the query cursor or time range is invalid
+   * @private
+   */
+  private async _listAccessibleTasks(
+    query: TaskQuery,
+    extension?: Record<string, any>
+  ): Promise<StoreQueryResult<Task> | undefined> {
+    const limit = getQueryLimit(query);
+    const items: Task[] = [];
+    let cursor = query.cursor;
+    do {
+      // fetch only the missing tasks, so the cursor of the fetched page continues after the last listed task
+      const page = await this._queryTasks({
+        ...query,
+        limit: limit - items.length,
+        cursor,
+      });
+      if (!page) {
+        return undefined;
+      }
+      const accessible = await Promise.all(
+        page.items.map((task) => this._mayAccessTask(task.id, extension))
+      );
+      items.push(...page.items.filter((_, index) => accessible[index]));
+      cursor = page.nextCursor;
+    } while (cursor !== undefined && items.length < limit);
+    return { items, nextCursor: cursor };
+  }
+
+  /**
+   * Handles requests to list the tasks in the task store, most recently updated first.
+   * Tasks the caller may not access are left out, see `_listAccessibleTasks`
+   * @param request - The task list request
+   * @param requestAbortSignal - Optional abort signal for canceling the request
+   * @param extension - Optional extension data
+   * @returns Promise resolving to a JSON-RPC response with a page of tasks or error
+   * @private
+   */
+  private async _handleTaskList(
+    request: ListTasksRequest,
+    requestAbortSignal?: AbortSignal,
+    extension?: Record<string, any>
+  ): Promise<JSONRPCResponse> {
+    try {
+      const { contextId, state, historyLength, pageSize, pageToken } =
+        request.params;
+      // page tokens are store cursors, reject the tokens the stores did not issue
+      if (pageToken !== undefined) {
+        try {
+          decodeQueryCursor(pageToken);
+        } catch (error) {
+          return {
+            jsonrpc: "2.0",
+            id: request.id,
+            error: invalidParamsError(
+              "Invalid page token",
               error instanceof Error ? error.message : undefined
             ),
+          };
+        }
+      }
+      const page = await this._listAccessibleTasks(
+        {
+          contextId,
+          state,
+          limit: pageSize,
+          cursor: pageToken,
+        },
+        extension
+      );
+      if (!page) {
+        return {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: unsupportedOperationError(
+            "The task store does not support listing tasks"
+          ),
+        };
+      }
+
+      const tasks = page.items.map((task) =>
+        trimTaskHistory(task, historyLength)
+      );
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: { tasks, nextPageToken: page.nextCursor },
+      };
+    } catch (error) {
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: isJSONRPCError(error)
+          ? error
+          : internalError(error instanceof Error ? error.message : undefined),
       };
     }
   }
 
   /**
    * Handles requests to get push notification configuration for a task
-   * Currently returns not supported error as this is a placeholder implementation
    * @param request - The push notification config get request
    * @param requestAbortSignal - Optional abort signal for canceling the request
    * @param extension - Optional extension data
@@ -355,9 +1151,18 @@ class A2AServer {
     extension?: Record<string, any>
   ): Promise<JSONRPCResponse> {
     try {
+      // Check if push notifications are supported
+      if (!this._supportsPushNotifications) {
+        return {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: pushNotificationNotSupportedError(),
+        };
+      }
+
       // Check if the task exists
       const taskId = request.params.id;
-      const task = await this._taskStore.get(taskId);
+      const task = await this._getAccessibleTask(taskId, extension);
       if (!task) {
         return {
           jsonrpc: "2.0",
@@ -366,12 +1171,22 @@ class A2AServer {
         };
       }
 
-      // This is a placeholder implementation
-      // TODO: Implement actual push notification configuration retrieval logic
+      // Retrieve the config registered for the task
+      const config = await this._pushNotificationConfigStore.get(taskId);
+      if (!config) {
+        return {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: taskNotFoundError(
+            `No push notification config found for task ${taskId}`
+          ),
+        };
+      }
+
       return {
         jsonrpc: "2.0",
         id: request.id,
-        error: pushNotificationNotSupportedError(),
+        result: maskPushNotificationConfig(taskId, config),
       };
     } catch (error) {
       return {
@@ -386,7 +1201,7 @@ class A2AServer {
 
   /**
    * Handles requests to set push notification configuration for a task
-   * Currently returns the config as confirmation but doesn't implement actual notifications
+   * The config is stored and used to notify the client whenever the task state changes
    * @param request - The push notification config set request
    * @param requestAbortSignal - Optional abort signal for canceling the request
    * @param extension - Optional extension data
@@ -399,8 +1214,20 @@ class A2AServer {
     extension?: Record<string, any>
   ): Promise<JSONRPCResponse> {
     try {
+      // Check if push notifications are supported
+      if (!this._supportsPushNotifications) {
+        return {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: pushNotificationNotSupportedError(),
+        };
+      }
+
       // Check if the task exists
-      const task = await this._taskStore.get(request.params.taskId);
+      const task = await this._getAccessibleTask(
+        request.params.taskId,
+        extension
+      );
       if (!task) {
         return {
           jsonrpc: "2.0",
@@ -411,25 +1238,17 @@ class A2AServer {
         };
       }
 
-      // This is a placeholder implementation
-      // TODO: Implement actual push notification configuration logic
-
-      // Return the received config as a confirmation
-      const result: TaskPushNotificationConfig = {
-        taskId: request.params.taskId,
-        pushNotificationConfig: {
-          ...request.params.pushNotificationConfig,
-          // Mask any sensitive credentials in the response
-          authentication: request.params.pushNotificationConfig.authentication
-            ? {
-                schemes:
-                  request.params.pushNotificationConfig.authentication.schemes,
-                // Omit credentials from response
-                credentials: undefined,
-              }
-            : undefined,
-        },
-      };
+      // Store the config for the task
+      await this._pushNotificationConfigStore.set(
+        request.params.taskId,
+        request.params.pushNotificationConfig
+      );
+
+      // Return the stored config as a confirmation
+      const result = maskPushNotificationConfig(
+        request.params.taskId,
+        request.params.pushNotificationConfig
+      );
 
       return {
         jsonrpc: "2.0",
@@ -448,7 +1267,7 @@ class A2AServer {
   }
 
   /**
-   * Handles task cancellation requests by delegating to the agent executor
+   * Handles task cancellation requests by delegating to the agent executor and canceling any running stream of the task
    * @param request - The task cancel request
    * @param requestAbortSignal - Optional abort signal for canceling the request
    * @param extension - Optional extension data
@@ -465,7 +1284,8 @@ class A2AServer {
       const taskId = request.params?.id;
 
       // Get the task from the store
-      const task = await this._taskStore.get(taskId);
+      let taskVersion = await this._getTaskVersion(taskId);
+      const task = await this._getAccessibleTask(taskId, extension);
       if (!task) {
         return {
           jsonrpc: "2.0",
@@ -474,18 +1294,66 @@ class A2AServer {
         };
       }
 
-      // Call the agent executor's cancel method
-      const result = await this._agentExecutor.cancel(task);
-
-      // Check if the result is an error
-      if (isJSONRPCError(result)) {
+      // A task in a final state can not be canceled
+      if (isFinalTaskState(task.status.state)) {
         return {
           jsonrpc: "2.0",
           id: request.id,
-          error: result,
+          error: taskNotCancelableError(
+            `Task ${taskId} is already ${task.status.state}`
+          ),
         };
       }
 
+      // Call the agent executor's cancel method if implemented
+      let result: Task | undefined;
+      if (this._agentExecutor.cancel) {
+        const cancelResult = await this._agentExecutor.cancel(task);
+        // Check if the result is an error
+        if (isJSONRPCError(cancelResult)) {
+          return {
+            jsonrpc: "2.0",
+            id: request.id,
+            error: cancelResult,
+          };
+        }
+        result = cancelResult;
+      }
+
+      // Cancel the running stream of the task, this aborts the execution context,
+      // broadcasts the canceled status update to all tappers and persists the canceled task
+      const ongoingConsumer = this._taskStreamManager.getConsumer(taskId);
+      if (ongoingConsumer) {
+        await ongoingConsumer.cancel();
+        // the stored task has the events streamed since the task was loaded,
+        // merge the status and metadata of the executor's task into it
+        taskVersion = await this._getTaskVersion(taskId);
+        const canceledTask = await this._taskStore.get(taskId);
+        if (canceledTask && !result) {
+          return {
+            jsonrpc: "2.0",
+            id: request.id,
+            result: canceledTask,
+          };
+        }
+        if (canceledTask && result) {
+          result = {
+            ...canceledTask,
+            status: result.status,
+            metadata: result.metadata ?? canceledTask.metadata,
+          };
+        }
+      }
+
+      // Otherwise cancel the stored task
+      result ??= {
+        ...task,
+        status: { state: "canceled", timestamp: new Date().toISOString() },
+      };
+
+      // Store the updated task
+      await this._saveTask(result, taskVersion);
+
       // Return the updated task
       return {
         jsonrpc: "2.0",
@@ -506,10 +1374,12 @@ class A2AServer {
   }
 
   /**
-   * Handles task resubscription requests to continue receiving updates for an active task
+   * Handles task resubscription requests to continue receiving updates for a task.
+   * Missed events are replayed from the last received event, and a finished task is replayed as its final state
    * @param request - The task resubscription request
    * @param requestAbortSignal - Optional abort signal for canceling the request
-   * @param extension - Optional extension data
+   * @param extension - Optional extension data. `extension.lastEventId` is the sequence number of the last
+   * event the client received, e.g. from the `Last-Event-ID` header of a reconnecting SSE client
    * @returns AsyncGenerator yielding JSON-RPC responses for ongoing task updates
    * @private
    */
@@ -517,47 +1387,60 @@ class A2AServer {
     request: TaskResubscriptionRequest,
     requestAbortSignal?: AbortSignal,
     extension?: Record<string, any>
-  ): AsyncGenerator<JSONRPCResponse> {
+  ): AsyncGenerator<StreamResponse> {
     try {
       // Retrieve  and resolve any existing task
       let task: Task | undefined;
 
-      task = await this._taskStore.get(request.params.id);
+      task = await this._getAccessibleTask(request.params.id, extension);
       if (!task) {
         yield {
-          jsonrpc: "2.0",
-          id: request.id,
-          error: taskNotFoundError(`Task ${request.params.id} not found`),
+          response: {
+            jsonrpc: "2.0",
+            id: request.id,
+            error: taskNotFoundError(`Task ${request.params.id} not found`),
+          },
         };
         return;
       } else {
         const ongoingConsumer = this._taskStreamManager.getConsumer(task.id);
-        // if there is no consumer, fail since the task is not active
+        // if there is no consumer the stream is finished, replay the final state of the task and close
         if (!ongoingConsumer) {
           yield {
-            jsonrpc: "2.0",
-            id: request.id,
-            error: taskNotFoundError(`Task ${request.params.id} is not active`),
+            response: {
+              jsonrpc: "2.0",
+              id: request.id,
+              result: task,
+            },
           };
           return;
         }
 
-        // tab into the ongoing consumer and yield the events as they come
-        for await (const event of ongoingConsumer.tap()) {
+        // tab into the ongoing consumer and yield the events as they come, until the request is aborted.
+        // events missed after the last received event are replayed first
+        for await (const { seq, event } of ongoingConsumer.tap(
+          requestAbortSignal,
+          extension?.lastEventId
+        )) {
           yield {
-            jsonrpc: "2.0",
-            id: request.id,
-            result: event,
+            response: {
+              jsonrpc: "2.0",
+              id: request.id,
+              result: event,
+            },
+            eventId: String(seq),
           };
         }
       }
     } catch (error) {
       yield {
-        jsonrpc: "2.0",
-        id: request.id,
-        error: isJSONRPCError(error)
-          ? error
-          : internalError(error instanceof Error ? error.message : undefined),
+        response: {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: isJSONRPCError(error)
+            ? error
+            : internalError(error instanceof Error ? error.message : undefined),
+        },
       };
     }
   }
@@ -591,10 +1474,24 @@ class A2AServer {
           extension
         );
         return { stream: result };
+      },
+      { streaming: true }
+    );
+
+    // 3. tasks/get
+    this._jsonRpcServer.setRequestHandler(
+      "tasks/get",
+      async (request, requestAbortSignal, extension) => {
+        const result = await this._handleTaskGet(
+          request,
+          requestAbortSignal,
+          extension
+        );
+        return { response: result };
       }
     );
 
-    // 3. tasks/cancel
+    // 4. tasks/cancel
     this._jsonRpcServer.setRequestHandler(
       "tasks/cancel",
       async (request, requestAbortSignal, extension) => {
@@ -607,7 +1504,7 @@ class A2AServer {
       }
     );
 
-    // 4. tasks/pushNotification/set
+    // 5. tasks/pushNotification/set
     this._jsonRpcServer.setRequestHandler(
       "tasks/pushNotificationConfig/set",
       async (request, requestAbortSignal, extension) => {
@@ -620,7 +1517,7 @@ class A2AServer {
       }
     );
 
-    // 5. tasks/pushNotification/get
+    // 6. tasks/pushNotification/get
     this._jsonRpcServer.setRequestHandler(
       "tasks/pushNotificationConfig/get",
       async (request, requestAbortSignal, extension) => {
@@ -633,7 +1530,7 @@ class A2AServer {
       }
     );
 
-    // 6. tasks/resubscribe
+    // 7. tasks/resubscribe
     this._jsonRpcServer.setRequestHandler(
       "tasks/resubscribe",
       async (request, requestAbortSignal, extension) => {
@@ -643,6 +1540,20 @@ class A2AServer {
           extension
         );
         return { stream: result };
+      },
+      { streaming: true }
+    );
+
+    // 8. tasks/list
+    this._jsonRpcServer.setRequestHandler(
+      "tasks/list",
+      async (request, requestAbortSignal, extension) => {
+        const result = await this._handleTaskList(
+          request,
+          requestAbortSignal,
+          extension
+        );
+        return { response: result };
       }
     );
   }
@@ -684,6 +1595,80 @@ class A2AServer {
     );
   }
 
+  /**
+   * Handles a JSON-RPC batch request.
+   * The requests run concurrently, notifications get no response and streaming methods are rejected.
+   * @param requests The parsed requests of the batch
+   * @param requestAbortSignal Optional abort signal for canceling the request
+   * @param extension Optional extension data passed to handlers
+   * @returns Promise resolving to the responses of the requests that are not notifications
+   * @throws Error if the server is not running
+   */
+  public async handleBatchRequest(
+    requests: JSONRPCBatch,
+    requestAbortSignal?: AbortSignal,
+    extension?: Record<string, any>
+  ): Promise<JSONRPCResponse[]> {
+    if (!this._isRunning) {
+      throw new Error("Server is not running");
+    }
+    return this._jsonRpcServer.handleBatchRequest(
+      requests,
+      requestAbortSignal,
+      extension
+    );
+  }
+
+  /**
+   * Adds a middleware wrapping the handling of requests, e.g. for logging, authorization or rewriting responses.
+   * Middlewares run in the order they are added, after the request params are validated.
+   * @param middleware The middleware to add
+   * @param methods Optional methods the middleware applies to, e.g. `["tasks/get"]`. Applies to all methods if omitted
+   */
+  public use(middleware: JSONRPCMiddleware, methods?: string[]): void {
+    this._jsonRpcServer.use(middleware, methods);
+  }
+
+  /**
+   * Registers a custom JSON-RPC method, e.g. a vendor method like `agent/skills/list`
+   * @param method The name of the method
+   * @param paramsSchema The Zod schema the request params are validated against
+   * @param handler The handler called with the validated params
+   * @throws Error if the method is an A2A protocol method
+   */
+  public registerMethod<S extends z.ZodType>(
+    method: string,
+    paramsSchema: S,
+    handler: MethodHandler<S>
+  ): void {
+    this._jsonRpcServer.setMethodHandler(
+      method,
+      paramsSchema,
+      async (request, requestAbortSignal, extension) => {
+        try {
+          const result = await handler(request.params, {
+            request,
+            requestAbortSignal,
+            extension: extension ?? {},
+          });
+          return { response: { jsonrpc: "2.0", id: request.id, result } };
+        } catch (error) {
+          return {
+            response: {
+              jsonrpc: "2.0",
+              id: request.id,
+              error: isJSONRPCError(error)
+                ? error
+                : internalError(
+                    error instanceof Error ? error.message : undefined
+                  ),
+            },
+          };
+        }
+      }
+    );
+  }
+
   /**
    * Gets the agent card containing metadata about the agent's capabilities
    * @returns The agent card
@@ -691,6 +1676,23 @@ class A2AServer {
   public get agentCard(): AgentCard {
     return this._agentCard;
   }
+
+  /**
+   * Gets the extended agent card served to authenticated clients
+   * @returns The extended agent card, or undefined if not configured
+   */
+  public get extendedAgentCard(): AgentCard | undefined {
+    return this._extendedAgentCard;
+  }
+
+  /**
+   * Gets the public keys used to verify signed push notifications
+   * @returns The JSON Web Key Set, or undefined if push notifications are not signed
+   */
+  public async getPushNotificationJwks(): Promise<JsonWebKeySet | undefined> {
+    return this._pushNotificationSigner?.getJwks();
+  }
 }
 
+export type { A2AServerParams, MethodHandler, TaskAccessPolicy };
 export { A2AServer };
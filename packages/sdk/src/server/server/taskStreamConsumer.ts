@@ -4,11 +4,92 @@
  *
  * - Only the first request for a task starts consuming the stream.
  * - Subsequent requests tap into the live stream and receive new events only.
+ * - Every event gets a sequence number and the most recent events are kept in a bounded log,
+ *   so a tapper can resume from the last event it received. The log belongs to the task, so the
+ *   sequence numbers keep increasing when a paused task is resumed with a new stream. The events of a
+ *   paused task are dropped when its stream ends, its sequence number is kept for a limited time.
+ * - If an idle timeout is set, a stream that produces no event in time fails the task.
+ * - A tapper can be stopped with its own abort signal without affecting the consumer or the other tappers.
+ * - Every status and artifact update is reduced into the task and persisted in the task store.
+ *   With a compare-and-set task store, the update is reapplied if the task was concurrently updated.
  * - When the stream ends, all tappers are notified and cleaned up.
  */
 
 import type { AgentStreamEvent, AgentStreamQueue } from "../agent/types.ts";
 import type { AgentTaskStream } from "../agent/stream.ts";
+import type { IStore } from "../providers/storage/index.ts";
+import {
+  isJSONRPCError,
+  type Task,
+  type TaskArtifactUpdateEvent,
+  type TaskStatusUpdateEvent,
+} from "../../types/types.ts";
+import { TaskHandler } from "../../utils/task.ts";
+import { createTextPart } from "../../utils/part.ts";
+import { isFinalTaskState } from "../../utils/taskState.ts";
+
+/**
+ * Callback invoked after a stream event has been reduced into the stored task
+ * @param task - The updated task
+ * @param previousTask - The task before the update, if it was stored
+ */
+type TaskUpdateListener = (
+  task: Task,
+  previousTask?: Task
+) => Promise<void> | void;
+
+/**
+ * Options shared by all consumers of a TaskStreamManager
+ */
+type TaskStreamManagerOptions = {
+  /** The store the consumed task updates are persisted to */
+  taskStore: IStore<Task>;
+  /** Optional listener notified whenever a stream event updates the stored task */
+  onTaskUpdate?: TaskUpdateListener;
+  /** Maximum number of recent events kept per task for replaying to resubscribing tappers (default: 1000) */
+  maxLoggedEvents?: number;
+  /** Optional time in milliseconds after which a stream without new events fails the task */
+  idleTimeoutMs?: number;
+  /** Time in milliseconds the sequence number of a paused task is kept after its stream ended, for resuming the task with a new stream (default: 600000) */
+  pausedTaskLogTtlMs?: number;
+};
+
+/**
+ * A stream event with its sequence number in the task's event stream.
+ * Sequence numbers start at 1 and increase by one for every event.
+ */
+type SequencedStreamEvent = {
+  seq: number;
+  event: AgentStreamEvent;
+};
+
+/**
+ * The event log of a task, shared by the consumers of the task's successive streams
+ */
+type TaskEventLog = {
+  /** Sequence number of the last event of the task */
+  lastSeq: number;
+  /** The most recent events, replayed to tappers resuming from a sequence number */
+  events: SequencedStreamEvent[];
+};
+
+/**
+ * Options for creating a TaskStreamConsumer
+ */
+type TaskStreamConsumerOptions = TaskStreamManagerOptions & {
+  /** Optional event log of the task, continued by the consumer. A new log is started without it */
+  eventLog?: TaskEventLog;
+  /** Optional abort signal to stop consuming the stream */
+  abortSignal?: AbortSignal;
+  /** Optional callback invoked once the stream is finished */
+  onFinished?: () => void;
+};
+
+/** Maximum number of times an event is applied to a concurrently updated task before giving up */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/** Marker returned when a stream produced no event within the idle timeout */
+const IDLE_TIMEOUT = Symbol("idle-timeout");
 
 /**
  * Represents a tapper/listener for the stream.
@@ -20,47 +101,150 @@ type Tapper<T> = {
 };
 
 class TaskStreamConsumer {
-  private tappers: Set<Tapper<AgentStreamEvent>> = new Set();
+  private tappers: Set<Tapper<SequencedStreamEvent>> = new Set();
   private consuming: boolean = false;
   // true when the stream is finished
   private finished: boolean = false;
+  private readonly taskStream: AgentTaskStream;
   private readonly streamQueue: AgentStreamQueue;
+  private readonly taskStore: IStore<Task>;
   private readonly isEndOfStreamEvent: (event: AgentStreamEvent) => boolean;
   private readonly abortSignal?: AbortSignal;
+  private readonly onTaskUpdate?: TaskUpdateListener;
+  private readonly onFinished?: () => void;
+  private readonly maxLoggedEvents: number;
+  private readonly idleTimeoutMs?: number;
+  // the event log of the task, continued across the task's streams
+  private readonly eventLog: TaskEventLog;
+  // the task after applying the last consumed event
+  private latestTask?: Task;
+  // resolved once the stream is finished
+  private readonly done: Promise<void>;
+  private resolveDone!: () => void;
 
   constructor(
     taskStream: AgentTaskStream,
     isEndOfStreamEvent: (event: AgentStreamEvent) => boolean,
-    abortSignal?: AbortSignal
+    {
+      taskStore,
+      abortSignal,
+      onTaskUpdate,
+      maxLoggedEvents = 1000,
+      idleTimeoutMs,
+      onFinished,
+      eventLog = { lastSeq: 0, events: [] },
+    }: TaskStreamConsumerOptions
   ) {
+    this.taskStream = taskStream;
     this.streamQueue = taskStream.streamQueue;
     this.isEndOfStreamEvent = isEndOfStreamEvent;
+    this.taskStore = taskStore;
     this.abortSignal = abortSignal;
+    this.onTaskUpdate = onTaskUpdate;
+    this.onFinished = onFinished;
+    this.maxLoggedEvents = maxLoggedEvents;
+    this.idleTimeoutMs = idleTimeoutMs;
+    this.eventLog = eventLog;
+    this.done = new Promise((resolve) => {
+      this.resolveDone = resolve;
+    });
   }
 
   /**
    * Adds a new tapper and returns an async generator for it.
+   * The tapper is registered immediately, so no event is missed between tapping and iterating.
+   * @param abortSignal - Optional abort signal to stop this tapper, e.g. when its client disconnects.
+   * Aborting only removes the tapper, the stream keeps being consumed for the other tappers.
+   * @param afterSeq - Optional sequence number of the last event the tapper received. The logged events after it
+   * are replayed before the live events. If they are no longer logged, a snapshot of the current task is sent instead.
+   * Without it, a tapper of a finished stream receives a snapshot of the final task.
    */
-  public async *tap(): AsyncGenerator<AgentStreamEvent> {
-    const tapper: Tapper<AgentStreamEvent> = {
-      queue: [],
+  public tap(
+    abortSignal?: AbortSignal,
+    afterSeq?: number
+  ): AsyncGenerator<SequencedStreamEvent> {
+    const tapper: Tapper<SequencedStreamEvent> = {
+      queue: this._replay(afterSeq),
       resolve: undefined,
     };
-    this.tappers.add(tapper);
+    // remove the tapper on abort, even if its generator is never iterated
+    const onAbort = () => {
+      this.tappers.delete(tapper);
+      tapper.queue = [];
+      const resolve = tapper.resolve;
+      tapper.resolve = undefined;
+      resolve?.(undefined);
+    };
+    if (abortSignal?.aborted) {
+      tapper.queue = [];
+    } else if (!this.finished) {
+      this.tappers.add(tapper);
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+    }
+    return this._iterate(tapper, () =>
+      abortSignal?.removeEventListener("abort", onAbort)
+    );
+  }
+
+  /**
+   * Gets the events to replay to a new tapper
+   * @param afterSeq - Optional sequence number of the last event the tapper received
+   * @returns The events to queue for the tapper
+   * @private
+   */
+  private _replay(afterSeq?: number): SequencedStreamEvent[] {
+    if (afterSeq === undefined) {
+      return this.finished ? [this._snapshot()] : [];
+    }
+    const { events, lastSeq } = this.eventLog;
+    const firstLoggedSeq = events[0]?.seq ?? lastSeq + 1;
+    if (afterSeq >= firstLoggedSeq - 1) {
+      return events.filter((entry) => entry.seq > afterSeq);
+    }
+    // the missed events are no longer logged, send the current task instead
+    return [this._snapshot()];
+  }
+
+  /**
+   * Creates an event with the current task, reflecting all events consumed so far
+   * @private
+   */
+  private _snapshot(): SequencedStreamEvent {
+    return {
+      seq: this.eventLog.lastSeq,
+      event: this.latestTask ?? this.taskStream.getTask(),
+    };
+  }
+
+  /**
+   * Yields the events received by a tapper until the stream is finished or the tapper is removed.
+   * @param tapper - The tapper to iterate
+   * @param release - Callback to release the resources of the tapper once the iteration ends
+   * @private
+   */
+  private async *_iterate(
+    tapper: Tapper<SequencedStreamEvent>,
+    release: () => void
+  ): AsyncGenerator<SequencedStreamEvent> {
     try {
-      while (!this.finished) {
+      // drain the events queued for the tapper even if the stream is already finished
+      while (
+        tapper.queue.length > 0 ||
+        (!this.finished && this.tappers.has(tapper))
+      ) {
         if (tapper.queue.length > 0) {
           const event = tapper.queue.shift()!;
           yield event;
         } else {
           // wait for a new event
-          let event = await new Promise<AgentStreamEvent | undefined>(
-            (resolve: (value: AgentStreamEvent | undefined) => void) => {
+          let event = await new Promise<SequencedStreamEvent | undefined>(
+            (resolve: (value: SequencedStreamEvent | undefined) => void) => {
               tapper.resolve = resolve;
             }
           );
+          tapper.resolve = undefined;
           // tappers are blocked until an event is available.
-          // when the stream is finished, the event will be undefined
+          // when the stream is finished or the tapper is aborted, the event will be undefined
           if (event) {
             yield event;
           } else {
@@ -70,21 +254,121 @@ class TaskStreamConsumer {
       }
     } finally {
       this.tappers.delete(tapper);
+      release();
     }
   }
 
   /**
-   * Internal: Consumes the source queue and broadcasts events to tappers.
+   * Reduces a stream event into the stored task and persists the result.
+   * @param event - The stream event to apply
+   * @private
    */
-  public async *consume() {
+  private async _updateTask(event: AgentStreamEvent): Promise<void> {
+    if (
+      isJSONRPCError(event) ||
+      (event.kind !== "status-update" && event.kind !== "artifact-update")
+    ) {
+      return;
+    }
+    const versioned =
+      this.taskStore.getVersioned !== undefined &&
+      this.taskStore.compareAndSet !== undefined;
+    for (let attempt = 1; ; attempt++) {
+      // load the latest stored task, falling back to the stream's task if it was never stored
+      const stored = versioned
+        ? await this.taskStore.getVersioned!(event.taskId)
+        : undefined;
+      const previousTask = versioned
+        ? stored?.value
+        : await this.taskStore.get(event.taskId);
+      const updatedTask = this._applyEvent(
+        previousTask ?? this.taskStream.getTask(),
+        event
+      );
+      if (!versioned) {
+        await this.taskStore.set(event.taskId, updatedTask);
+      } else if (
+        !(await this.taskStore.compareAndSet!(
+          event.taskId,
+          updatedTask,
+          stored?.version
+        ))
+      ) {
+        // another writer updated the task, apply the event to its update
+        if (attempt < MAX_UPDATE_ATTEMPTS) continue;
+        throw new Error(
+          `Task ${event.taskId} was updated concurrently ${attempt} times, the update was not stored`
+        );
+      }
+      this.latestTask = updatedTask;
+      await this.onTaskUpdate?.(updatedTask, previousTask);
+      return;
+    }
+  }
+
+  /**
+   * Reduces a status or artifact update into a task
+   * @param task - The task to update
+   * @param event - The update to apply
+   * @returns The updated task
+   * @private
+   */
+  private _applyEvent(
+    task: Task,
+    event: TaskStatusUpdateEvent | TaskArtifactUpdateEvent
+  ): Task {
+    const taskHandler = new TaskHandler(task);
+    if (event.kind === "status-update") {
+      taskHandler.handleStatusUpdate(event);
+      // record the agent status message in the task history
+      const statusMessage = event.status.message;
+      if (
+        statusMessage &&
+        !task.history?.some((m) => m.messageId === statusMessage.messageId)
+      ) {
+        taskHandler.addMessageToHistory({
+          ...statusMessage,
+          taskId: task.id,
+          contextId: task.contextId,
+        });
+      }
+    } else {
+      taskHandler.handleArtifactUpdate(event);
+    }
+    return taskHandler.getTask();
+  }
+
+  /**
+   * Consumes the source queue, persists the task updates and broadcasts events to tappers.
+   * Resolves when the stream is finished.
+   */
+  public async consume(): Promise<void> {
     // if the stream is finished or already consuming, return
     if (this.consuming || this.finished) return;
 
     // set the stream as consuming
     this.consuming = true;
+    // an event being dequeued, kept across idle timeouts so no event is lost
+    let nextEvent: Promise<AgentStreamEvent | undefined> | undefined;
     try {
       while (!this.abortSignal?.aborted) {
-        const event = await this.streamQueue.dequeue();
+        nextEvent ??= this.streamQueue.dequeue();
+        const event = await this._waitForEvent(nextEvent);
+
+        // fail the task if the stream did not produce any event in time, the failed status update is consumed next
+        if (event === IDLE_TIMEOUT) {
+          await this.taskStream.fail({
+            message: {
+              parts: [
+                createTextPart(
+                  `Task failed: the agent did not send any update for ${this.idleTimeoutMs}ms.`
+                ),
+              ],
+            },
+          });
+          continue;
+        }
+        nextEvent = undefined;
 
         // this will not normally happen since the queue is blocking, but if for any reason the event is undefined the streamQueue is closed
         if (!event) {
@@ -96,23 +380,13 @@ class TaskStreamConsumer {
           break;
         }
 
-        // ToDo: update the task state in the store, if the event is a task update or artifact update.
-
-        // yield the event
-        yield event;
-
-        // Broadcast to all tappers
-        for (const tapper of this.tappers) {
-          //
-          if (tapper.resolve) {
-            tapper.resolve(event);
-          } else {
-            tapper.queue.push(event);
-          }
-        }
+        // update the task state in the store before notifying tappers, so they observe a consistent task
+        await this._updateTask(event);
+        this._broadcast(event);
       }
     } catch (err) {
-      // ToDo: Notify all tappers of error/end
+      // the stream can not be consumed anymore, fail the task and notify all tappers
+      await this._fail(err);
     } finally {
       // set the stream as finished and notify all tappers and clean up
       this.finished = true;
@@ -123,18 +397,142 @@ class TaskStreamConsumer {
       }
       this.tappers.clear();
       this.consuming = false;
+      this.onFinished?.();
+      this.resolveDone();
+    }
+  }
+
+  /**
+   * Logs an event and broadcasts it to all tappers
+   * @param event - The event to broadcast
+   * @private
+   */
+  private _broadcast(event: AgentStreamEvent): void {
+    // log the event for tappers resuming later
+    const entry: SequencedStreamEvent = { seq: ++this.eventLog.lastSeq, event };
+    this.eventLog.events.push(entry);
+    if (this.eventLog.events.length > this.maxLoggedEvents) {
+      this.eventLog.events.shift();
+    }
+
+    // Broadcast to all tappers
+    for (const tapper of this.tappers) {
+      if (tapper.resolve) {
+        const resolve = tapper.resolve;
+        tapper.resolve = undefined;
+        resolve(entry);
+      } else {
+        tapper.queue.push(entry);
+      }
+    }
+  }
+
+  /**
+   * Fails the task after the stream failed to be consumed.
+   * The failed status update is persisted, if possible, and broadcast to all tappers.
+   * @param error - The error that stopped the consumption
+   * @private
+   */
+  private async _fail(error: unknown): Promise<void> {
+    const reason = error instanceof Error ? error.message : String(error);
+    try {
+      // close the task stream and abort the executor, the stream is not consumed anymore
+      await this.taskStream.fail({
+        message: { parts: [createTextPart(reason)] },
+      });
+    } catch (e) {
+      // the task is failed below even if the stream can not be written to
+    }
+    const task = this.taskStream.getTask();
+    const event: AgentStreamEvent = {
+      kind: "status-update",
+      taskId: task.id,
+      contextId: task.contextId,
+      final: true,
+      status:
+        task.status.state === "failed"
+          ? task.status
+          : { state: "failed", timestamp: new Date().toISOString() },
+    };
+    try {
+      await this._updateTask(event);
+    } catch (e) {
+      // the task store is failing, still notify the tappers
+    }
+    this._broadcast(event);
+  }
+
+  /**
+   * Waits for the next event of the stream, or until the idle timeout elapses
+   * @param nextEvent - The pending dequeue of the next event
+   * @returns The next event, or IDLE_TIMEOUT if no event arrived in time
+   * @private
+   */
+  private async _waitForEvent(
+    nextEvent: Promise<AgentStreamEvent | undefined>
+  ): Promise<AgentStreamEvent | undefined | typeof IDLE_TIMEOUT> {
+    if (this.idleTimeoutMs === undefined) {
+      return nextEvent;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<typeof IDLE_TIMEOUT>((resolve) => {
+      timer = setTimeout(() => resolve(IDLE_TIMEOUT), this.idleTimeoutMs);
+    });
+    try {
+      return await Promise.race([nextEvent, timeout]);
+    } finally {
+      clearTimeout(timer);
     }
   }
+
+  /**
+   * Waits until the stream is finished, i.e. the task reached a final or interrupted state
+   */
+  public async waitUntilFinished(): Promise<void> {
+    await this.done;
+  }
+
+  /**
+   * Cancels the task stream and waits until the canceled status update is persisted and broadcast.
+   * The task stream aborts its execution context, so the executor can stop working on the task.
+   */
+  public async cancel(): Promise<void> {
+    if (this.finished) return;
+    await this.taskStream.cancel();
+    await this.done;
+  }
 }
 
 class TaskStreamManager {
   // Map of task ID to consumer
   private consumers: Map<string, TaskStreamConsumer> = new Map();
+  // Map of task ID to event log, kept until the task reaches a final state or its paused log expires
+  private eventLogs: Map<string, TaskEventLog> = new Map();
+  // Map of task ID to the timer deleting the event log of the paused task
+  private eventLogTimers: Map<string, ReturnType<typeof setTimeout>> =
+    new Map();
+  private readonly options: TaskStreamManagerOptions;
+
+  /**
+   * Creates a new TaskStreamManager
+   * @param options - Options shared by all consumers created by this manager
+   */
+  constructor(options: TaskStreamManagerOptions) {
+    this.options = options;
+  }
 
   public getConsumer(taskId: string): TaskStreamConsumer | undefined {
     return this.consumers.get(taskId);
   }
 
+  /**
+   * Gets the sequence number of the last event of a task, 0 if the task has no logged events
+   * @param taskId - The ID of the task
+   */
+  public getLastSeq(taskId: string): number {
+    return this.eventLogs.get(taskId)?.lastSeq ?? 0;
+  }
+
   public createConsumer(
     taskStream: AgentTaskStream,
     isEndOfStreamEvent: (event: AgentStreamEvent) => boolean,
@@ -145,32 +543,73 @@ class TaskStreamManager {
     if (consumer) {
       throw new Error(`Stream for task ${task.id} is already being consumed`);
     }
-    consumer = new TaskStreamConsumer(
-      taskStream,
-      isEndOfStreamEvent,
-      abortSignal
-    );
+    // continue the event log of a resumed task
+    clearTimeout(this.eventLogTimers.get(task.id));
+    this.eventLogTimers.delete(task.id);
+    let eventLog = this.eventLogs.get(task.id);
+    if (!eventLog) {
+      eventLog = { lastSeq: 0, events: [] };
+      this.eventLogs.set(task.id, eventLog);
+    }
+    consumer = new TaskStreamConsumer(taskStream, isEndOfStreamEvent, {
+      ...this.options,
+      abortSignal,
+      eventLog,
+      // remove the consumer once the stream is finished, and the log once the task is finished
+      onFinished: () => {
+        this.remove(task.id);
+        if (isFinalTaskState(taskStream.getTask().status.state)) {
+          this.eventLogs.delete(task.id);
+        } else {
+          this._expireEventLog(task.id, eventLog);
+        }
+      },
+    });
     this.consumers.set(task.id, consumer);
     return consumer;
   }
 
+  /**
+   * Drops the events of a paused task, which are only replayed while its stream is consumed,
+   * and deletes its sequence number if the task is not resumed in time
+   * @param taskId - The ID of the paused task
+   * @param eventLog - The event log of the task
+   * @private
+   */
+  private _expireEventLog(taskId: string, eventLog: TaskEventLog): void {
+    eventLog.events = [];
+    const timer = setTimeout(() => {
+      this.eventLogTimers.delete(taskId);
+      this.eventLogs.delete(taskId);
+    }, this.options.pausedTaskLogTtlMs ?? 600000);
+    // the timer does not keep the process alive
+    timer.unref?.();
+    this.eventLogTimers.set(taskId, timer);
+  }
+
+  /**
+   * Taps into the ongoing stream of the task, or starts consuming the stream if no consumer exists yet
+   * @param taskStream - The task stream to consume
+   * @param isEndOfStreamEvent - Checks if an event ends the stream
+   * @param tapAbortSignal - Optional abort signal to stop the returned tapper, the consumer is not affected
+   * @returns Async generator of the stream events
+   */
   public tapOrConsume(
     taskStream: AgentTaskStream,
     isEndOfStreamEvent: (event: AgentStreamEvent) => boolean,
-    abortSignal?: AbortSignal
-  ): AsyncGenerator<AgentStreamEvent> {
+    tapAbortSignal?: AbortSignal
+  ): AsyncGenerator<SequencedStreamEvent> {
     let consumer = this.consumers.get(taskStream.getTask().id);
     if (consumer) {
       // if the consumer is already created tap into it
-      return consumer.tap();
+      return consumer.tap(tapAbortSignal);
     } else {
-      // if the consumer is not created, create it and kick off the consumer
-      consumer = this.createConsumer(
-        taskStream,
-        isEndOfStreamEvent,
-        abortSignal
-      );
-      return consumer.consume();
+      // if the consumer is not created, create it, tap into it and kick off the consumer.
+      // the consumer outlives the request, so it is not bound to the request abort signal
+      consumer = this.createConsumer(taskStream, isEndOfStreamEvent);
+      const events = consumer.tap(tapAbortSignal);
+      consumer.consume();
+      return events;
     }
   }
 
@@ -182,4 +621,9 @@ class TaskStreamManager {
   }
 }
 
+export type {
+  TaskUpdateListener,
+  TaskStreamManagerOptions,
+  SequencedStreamEvent,
+};
 export { TaskStreamConsumer, TaskStreamManager };
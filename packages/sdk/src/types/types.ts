@@ -763,6 +763,52 @@ export const TaskQueryParamsSchema = z.object({
 });
 export type TaskQueryParams = z.infer<typeof TaskQueryParamsSchema>;
 
+/**
+ * Parameters for listing tasks.
+ */
+export const ListTasksParamsSchema = z.object({
+  /**
+   * Optional context ID, only tasks of this context are listed.
+   */
+  contextId: z.string().optional(),
+  /**
+   * Optional task state, only tasks in this state are listed.
+   */
+  state: TaskStateEnum.optional(),
+  /**
+   * Number of messages to include in the history of the returned tasks.
+   */
+  historyLength: z.number().int().nonnegative().optional(),
+  /**
+   * Maximum number of tasks to return (default: 50).
+   */
+  pageSize: z.number().int().min(1).max(100).optional(),
+  /**
+   * Token returned with the previous page, to list the tasks after it.
+   */
+  pageToken: z.string().optional(),
+  /**
+   * Optional metadata for the operation.
+   */
+  metadata: z.record(z.string(), z.any()).optional(),
+});
+export type ListTasksParams = z.infer<typeof ListTasksParamsSchema>;
+
+/**
+ * A page of listed tasks.
+ */
+export const ListTasksResultSchema = z.object({
+  /**
+   * The tasks of the page, most recently updated first.
+   */
+  tasks: z.array(TaskSchema),
+  /**
+   * Token to list the next page, not set on the last page.
+   */
+  nextPageToken: z.string().optional(),
+});
+export type ListTasksResult = z.infer<typeof ListTasksResultSchema>;
+
 // --- MESSAGE SEND ---
 /**
  * Configuration options for sending a message.
@@ -842,6 +888,8 @@ export enum ErrorType {
   UnsupportedOperationError = -32004,
   ContentTypeNotSupportedError = -32005,
   InvalidAgentResponseError = -32006,
+  // not defined by the A2A protocol, returned when a task was updated by a concurrent request
+  TaskConflictError = -32050,
 }
 
 export const JSONParseErrorSchema = errorType(
@@ -920,6 +968,12 @@ export type InvalidAgentResponseError = z.infer<
   typeof InvalidAgentResponseErrorSchema
 >;
 
+export const TaskConflictErrorSchema = errorType(
+  ErrorType.TaskConflictError,
+  "Task was updated concurrently"
+);
+export type TaskConflictError = z.infer<typeof TaskConflictErrorSchema>;
+
 // --- JSON-RPC ---
 /**
  * Generic JSON-RPC error schema.
@@ -964,9 +1018,9 @@ export const JSONRPCErrorResponseSchema = z.object({
     InvalidAgentResponseErrorSchema,
   ]),
   /**
-   * The ID of the request.
+   * The ID of the request, null if it could not be determined.
    */
-  id: z.union([z.string(), z.number()]).optional(),
+  id: z.union([z.string(), z.number(), z.null()]).optional(),
   /**
    * JSON-RPC version (always "2.0").
    */
@@ -1210,6 +1264,29 @@ export type TaskResubscriptionRequest = z.infer<
   typeof TaskResubscriptionRequestSchema
 >;
 
+/**
+ * JSON-RPC request model for listing tasks.
+ */
+export const ListTasksRequestSchema = z.object({
+  /**
+   * The ID of the request.
+   */
+  id: z.union([z.string(), z.number()]).optional(),
+  /**
+   * JSON-RPC version (always "2.0").
+   */
+  jsonrpc: z.literal("2.0"),
+  /**
+   * The method (always "tasks/list").
+   */
+  method: z.literal("tasks/list"),
+  /**
+   * Parameters for listing the tasks.
+   */
+  params: ListTasksParamsSchema,
+});
+export type ListTasksRequest = z.infer<typeof ListTasksRequestSchema>;
+
 // --- RESPONSES ---
 /**
  * JSON-RPC success response for sending a message.
@@ -1378,6 +1455,32 @@ export type GetTaskPushNotificationConfigResponse = z.infer<
   typeof GetTaskPushNotificationConfigResponseSchema
 >;
 
+/**
+ * JSON-RPC success response for listing tasks.
+ */
+export const ListTasksSuccessResponseSchema = z.object({
+  /**
+   * The ID of the request.
+   */
+  id: z.union([z.string(), z.number()]).optional(),
+  /**
+   * JSON-RPC version (always "2.0").
+   */
+  jsonrpc: z.literal("2.0"),
+  /**
+   * The result (a page of tasks).
+   */
+  result: ListTasksResultSchema,
+});
+export type ListTasksSuccessResponse = z.infer<
+  typeof ListTasksSuccessResponseSchema
+>;
+export const ListTasksResponseSchema = z.union([
+  ListTasksSuccessResponseSchema,
+  JSONRPCErrorResponseSchema,
+]);
+export type ListTasksResponse = z.infer<typeof ListTasksResponseSchema>;
+
 // --- UNION TYPES (A2AError, A2ARequest, etc) ---
 /**
  * Union of all error types defined in the A2A protocol.
@@ -1408,6 +1511,7 @@ export const A2ARequestSchema = z.union([
   SetTaskPushNotificationConfigRequestSchema,
   GetTaskPushNotificationConfigRequestSchema,
   TaskResubscriptionRequestSchema,
+  ListTasksRequestSchema,
 ]);
 export type A2ARequest = z.infer<typeof A2ARequestSchema>;
 
@@ -118,3 +118,14 @@ export function invalidAgentResponseError(
     data,
   };
 }
+
+export function taskConflictError(
+  message?: string,
+  data?: unknown
+): JSONRPCError {
+  return {
+    code: ErrorType.TaskConflictError,
+    message: message ?? "Task was updated concurrently",
+    data,
+  };
+}
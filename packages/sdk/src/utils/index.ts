@@ -1,6 +1,7 @@
 export { MessageHandler } from "./message.js";
 export { ArtifactHandler } from "./artifact.js";
 export { TaskHandler } from "./task.js";
+export { isFinalTaskState, isPendingTaskState } from "./taskState.js";
 
 export {
   createTextPart,
@@ -10,4 +11,15 @@ export {
   createDataPart,
 } from "./part.js";
 
+export {
+  getPartMimeType,
+  mimeTypeMatches,
+  isMimeTypeAccepted,
+} from "./mime.js";
+
+export {
+  PUSH_NOTIFICATION_TOKEN_HEADER,
+  PUSH_NOTIFICATION_SIGNATURE_HEADER,
+} from "./pushNotification.js";
+
 export * from "./errors.js";
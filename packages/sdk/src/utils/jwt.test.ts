@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  JwksCache,
+  decodeJwt,
+  generateJwtKeyPair,
+  importJwtPublicKey,
+  jwkAllowsAlgorithm,
+  sha256Hex,
+  signJwt,
+  verifyJwtSignature,
+} from "./jwt.ts";
+
+const base64Url = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("signJwt and verifyJwtSignature", () => {
+  it.each(["ES256", "RS256"] as const)("round trips %s tokens", async (alg) => {
+    const keyPair = await generateJwtKeyPair(alg);
+    const token = await signJwt(
+      { sub: "alice" },
+      keyPair.privateKey,
+      alg,
+      "key-1"
+    );
+
+    const jwt = decodeJwt(token);
+    expect(jwt.header).toEqual({ alg, typ: "JWT", kid: "key-1" });
+    expect(jwt.payload).toEqual({ sub: "alice" });
+    expect(await verifyJwtSignature(jwt, keyPair.publicKey, alg)).toBe(true);
+  });
+
+  it("verifies with a public key imported from a JWK", async () => {
+    const keyPair = await generateJwtKeyPair("ES256");
+    const jwk = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+    const token = await signJwt({ sub: "alice" }, keyPair.privateKey, "ES256");
+
+    const publicKey = await importJwtPublicKey(jwk, "ES256");
+    expect(await verifyJwtSignature(decodeJwt(token), publicKey, "ES256")).toBe(
+      true
+    );
+  });
+
+  it("rejects a tampered payload", async () => {
+    const keyPair = await generateJwtKeyPair("ES256");
+    const [header, , signature] = (
+      await signJwt({ sub: "alice" }, keyPair.privateKey, "ES256")
+    ).split(".");
+    const tampered = `${header}.${base64Url({ sub: "mallory" })}.${signature}`;
+
+    expect(
+      await verifyJwtSignature(decodeJwt(tampered), keyPair.publicKey, "ES256")
+    ).toBe(false);
+  });
+
+  it("rejects a signature of another key", async () => {
+    const keyPair = await generateJwtKeyPair("ES256");
+    const otherKeyPair = await generateJwtKeyPair("ES256");
+    const token = await signJwt({ sub: "alice" }, keyPair.privateKey, "ES256");
+
+    expect(
+      await verifyJwtSignature(
+        decodeJwt(token),
+        otherKeyPair.publicKey,
+        "ES256"
+      )
+    ).toBe(false);
+  });
+});
+
+describe("decodeJwt", () => {
+  it.each([
+    ["too few segments", "a.b"],
+    ["invalid base64", "!!.!!.!!"],
+    ["invalid JSON", `${Buffer.from("{").toString("base64url")}.e30.`],
+    ["a null header", `${base64Url(null)}.${base64Url({})}.`],
+    ["an array payload", `${base64Url({ alg: "ES256" })}.${base64Url([])}.`],
+    ["a string payload", `${base64Url({ alg: "ES256" })}.${base64Url("x")}.`],
+  ])("throws on %s", (_, token) => {
+    expect(() => decodeJwt(token)).toThrow("Malformed JWT");
+  });
+});
+
+describe("jwkAllowsAlgorithm", () => {
+  it("allows any algorithm for keys without alg", () => {
+    expect(jwkAllowsAlgorithm({ kty: "EC" }, "ES256")).toBe(true);
+    expect(jwkAllowsAlgorithm({ kty: "EC" }, "RS256")).toBe(true);
+  });
+
+  it("allows only the declared algorithm", () => {
+    expect(jwkAllowsAlgorithm({ kty: "RSA", alg: "RS256" }, "RS256")).toBe(
+      true
+    );
+    expect(jwkAllowsAlgorithm({ kty: "RSA", alg: "RS256" }, "ES256")).toBe(
+      false
+    );
+  });
+});
+
+describe("sha256Hex", () => {
+  it("hashes text to lowercase hex", async () => {
+    expect(await sha256Hex("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("JwksCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const stubJwksFetch = (...keySets: { kid: string }[][]) => {
+    const fetchMock = vi.fn(async () => {
+      const keys = keySets.length > 1 ? keySets.shift()! : keySets[0];
+      return Response.json({ keys });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  it("caches the fetched keys", async () => {
+    const fetchMock = stubJwksFetch([{ kid: "a" }, { kid: "b" }]);
+    const cache = new JwksCache({ jwksUrl: "https://agent.example/jwks" });
+
+    expect(await cache.findKey("a")).toEqual({ kid: "a" });
+    expect(await cache.findKey("b")).toEqual({ kid: "b" });
+    expect(await cache.findKey()).toEqual({ kid: "a" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith("https://agent.example/jwks");
+  });
+
+  it("shares one fetch between concurrent lookups", async () => {
+    const fetchMock = stubJwksFetch([{ kid: "a" }]);
+    const cache = new JwksCache({ jwksUrl: "https://agent.example/jwks" });
+
+    await Promise.all([cache.findKey("a"), cache.findKey("a")]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("refreshes unknown key IDs at most once per refresh interval", async () => {
+    vi.useFakeTimers();
+    const fetchMock = stubJwksFetch([{ kid: "a" }], [{ kid: "b" }]);
+    const cache = new JwksCache({
+      jwksUrl: "https://agent.example/jwks",
+      minRefreshIntervalSeconds: 30,
+    });
+
+    await cache.findKey("a");
+    expect(await cache.findKey("b")).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(30_000);
+    expect(await cache.findKey("b")).toEqual({ kid: "b" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("refetches the keys once the cache expired", async () => {
+    vi.useFakeTimers();
+    const fetchMock = stubJwksFetch([{ kid: "a" }]);
+    const cache = new JwksCache({
+      jwksUrl: "https://agent.example/jwks",
+      cacheTtlSeconds: 60,
+    });
+
+    await cache.findKey("a");
+    vi.advanceTimersByTime(61_000);
+    await cache.findKey("a");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws if the endpoint fails or serves no keys", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(null, { status: 500 }))
+    );
+    await expect(
+      new JwksCache({ jwksUrl: "https://agent.example/jwks" }).findKey("a")
+    ).rejects.toThrow("Failed to fetch JWKS");
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({}))
+    );
+    await expect(
+      new JwksCache({ jwksUrl: "https://agent.example/jwks" }).findKey("a")
+    ).rejects.toThrow("Invalid JWKS: missing keys");
+  });
+});
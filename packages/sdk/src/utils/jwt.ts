@@ -0,0 +1,333 @@
+/**
+ * Minimal JSON Web Token helpers built on the Web Crypto API,
+ * shared by the push notification signer (server) and verifier (client) and the JWT authentication of the server.
+ */
+
+/** Supported JWT signing algorithms */
+type JwtAlgorithm = "ES256" | "RS256";
+
+/** Decoded JWT header */
+type JwtHeader = {
+  alg: string;
+  typ?: string;
+  kid?: string;
+};
+
+/** JSON Web Key with its key ID */
+type IdentifiedJsonWebKey = JsonWebKey & {
+  kid?: string;
+};
+
+/** A set of public JSON Web Keys as served by a JWKS endpoint */
+type JsonWebKeySet = {
+  keys: IdentifiedJsonWebKey[];
+};
+
+/** Decoded JWT with the data needed to verify its signature */
+type DecodedJwt = {
+  header: JwtHeader;
+  payload: Record<string, any>;
+  signingInput: string;
+  signature: Uint8Array;
+};
+
+/** Web Crypto parameters for each supported algorithm */
+const ALGORITHM_PARAMS: Record<
+  JwtAlgorithm,
+  {
+    key: EcKeyImportParams | RsaHashedImportParams;
+    sign: AlgorithmIdentifier | EcdsaParams;
+  }
+> = {
+  ES256: {
+    key: { name: "ECDSA", namedCurve: "P-256" },
+    sign: { name: "ECDSA", hash: "SHA-256" },
+  },
+  RS256: {
+    key: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    sign: { name: "RSASSA-PKCS1-v1_5" },
+  },
+};
+
+/**
+ * Checks if an algorithm name is a supported JWT signing algorithm
+ * @param alg - The algorithm name, e.g. from a JWT header
+ * @returns true if the algorithm is supported
+ */
+function isJwtAlgorithm(alg: string): alg is JwtAlgorithm {
+  return Object.prototype.hasOwnProperty.call(ALGORITHM_PARAMS, alg);
+}
+
+function base64UrlEncode(input: Uint8Array | string): string {
+  const bytes =
+    typeof input === "string" ? new TextEncoder().encode(input) : input;
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(
+    base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=")
+  );
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Computes the hex encoded SHA-256 hash of a text
+ * @param text - The text to hash
+ * @returns The hex encoded hash
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Generates a key pair for the given algorithm
+ * @param alg - The signing algorithm
+ * @returns The generated key pair, the private key is not extractable
+ */
+async function generateJwtKeyPair(alg: JwtAlgorithm): Promise<CryptoKeyPair> {
+  const params: EcKeyGenParams | RsaHashedKeyGenParams =
+    alg === "ES256"
+      ? { name: "ECDSA", namedCurve: "P-256" }
+      : {
+          name: "RSASSA-PKCS1-v1_5",
+          hash: "SHA-256",
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+        };
+  return crypto.subtle.generateKey(params, false, ["sign", "verify"]);
+}
+
+/**
+ * Imports a public JSON Web Key for verifying signatures
+ * @param jwk - The public JSON Web Key
+ * @param alg - The signing algorithm the key is used with
+ * @returns The imported public key
+ */
+async function importJwtPublicKey(
+  jwk: JsonWebKey,
+  alg: JwtAlgorithm
+): Promise<CryptoKey> {
+  return crypto.subtle.importKey("jwk", jwk, ALGORITHM_PARAMS[alg].key, false, [
+    "verify",
+  ]);
+}
+
+/**
+ * Creates a signed compact JWT
+ * @param payload - The JWT claims
+ * @param privateKey - The private key to sign with
+ * @param alg - The signing algorithm
+ * @param kid - Optional ID of the signing key
+ * @returns The compact JWT
+ */
+async function signJwt(
+  payload: Record<string, any>,
+  privateKey: CryptoKey,
+  alg: JwtAlgorithm,
+  kid?: string
+): Promise<string> {
+  const header: JwtHeader = { alg, typ: "JWT", ...(kid && { kid }) };
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const signature = await crypto.subtle.sign(
+    ALGORITHM_PARAMS[alg].sign,
+    privateKey,
+    new TextEncoder().encode(signingInput)
+  );
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Decodes a compact JWT without verifying it
+ * @param token - The compact JWT
+ * @returns The decoded JWT
+ * @throws Error if the token is malformed
+ */
+function decodeJwt(token: string): DecodedJwt {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new Error("Malformed JWT");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const textDecoder = new TextDecoder();
+  let jwt: DecodedJwt;
+  try {
+    jwt = {
+      header: JSON.parse(textDecoder.decode(base64UrlDecode(encodedHeader))),
+      payload: JSON.parse(textDecoder.decode(base64UrlDecode(encodedPayload))),
+      signingInput: `${encodedHeader}.${encodedPayload}`,
+      signature: base64UrlDecode(encodedSignature),
+    };
+  } catch (error) {
+    throw new Error("Malformed JWT");
+  }
+  // the header and the payload must be JSON objects, e.g. not null
+  const isObject = (value: unknown) =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  if (!isObject(jwt.header) || !isObject(jwt.payload)) {
+    throw new Error("Malformed JWT");
+  }
+  return jwt;
+}
+
+/**
+ * Verifies the signature of a decoded JWT
+ * @param jwt - The decoded JWT
+ * @param publicKey - The public key to verify with
+ * @param alg - The signing algorithm
+ * @returns true if the signature is valid
+ */
+async function verifyJwtSignature(
+  jwt: DecodedJwt,
+  publicKey: CryptoKey,
+  alg: JwtAlgorithm
+): Promise<boolean> {
+  return crypto.subtle.verify(
+    ALGORITHM_PARAMS[alg].sign,
+    publicKey,
+    jwt.signature,
+    new TextEncoder().encode(jwt.signingInput)
+  );
+}
+
+/**
+ * Checks if a key may verify signatures of an algorithm. Keys without an `alg` may verify any supported algorithm
+ * @param jwk - The public key
+ * @param alg - The signing algorithm, e.g. from a JWT header
+ * @returns true if the key declares no algorithm or the given one
+ */
+function jwkAllowsAlgorithm(jwk: JsonWebKey, alg: JwtAlgorithm): boolean {
+  return jwk.alg === undefined || jwk.alg === alg;
+}
+
+/**
+ * Options for creating a JWKS cache
+ */
+type JwksCacheOptions = {
+  /** URL of the JWKS endpoint */
+  jwksUrl: string;
+  /** How long fetched keys are cached in seconds (default: 3600) */
+  cacheTtlSeconds?: number;
+  /** Minimum time in seconds between two fetches, also when a key is unknown (default: 30) */
+  minRefreshIntervalSeconds?: number;
+};
+
+/**
+ * Caches the public keys of a JWKS endpoint.
+ * Unknown key IDs refresh the keys, since the issuer may have rotated them, but at most once per refresh interval,
+ * so tokens with made-up key IDs can not make every request fetch the keys. Concurrent refreshes share one fetch.
+ */
+class JwksCache {
+  private readonly _jwksUrl: string;
+  private readonly _cacheTtlSeconds: number;
+  private readonly _minRefreshIntervalSeconds: number;
+  private _keys: IdentifiedJsonWebKey[] = [];
+  private _fetchedAt = 0;
+  private _lastFetchAttemptAt = 0;
+  private _pendingFetch?: Promise<IdentifiedJsonWebKey[]>;
+
+  constructor({
+    jwksUrl,
+    cacheTtlSeconds = 3600,
+    minRefreshIntervalSeconds = 30,
+  }: JwksCacheOptions) {
+    this._jwksUrl = jwksUrl;
+    this._cacheTtlSeconds = cacheTtlSeconds;
+    this._minRefreshIntervalSeconds = minRefreshIntervalSeconds;
+  }
+
+  /**
+   * Finds the public key for a key ID, refreshing the cached keys if the key is unknown or the cache expired
+   * @param kid - Optional key ID, e.g. from a JWT header. Without it the first key is returned
+   * @returns The key, or undefined if the endpoint does not publish it
+   * @throws Error if the keys had to be fetched and the fetch failed
+   */
+  public async findKey(
+    kid?: string
+  ): Promise<IdentifiedJsonWebKey | undefined> {
+    const matches = (key: IdentifiedJsonWebKey) =>
+      kid === undefined || key.kid === kid;
+    const now = Date.now();
+    const cacheExpired = now - this._fetchedAt > this._cacheTtlSeconds * 1000;
+    const key = cacheExpired ? undefined : this._keys.find(matches);
+    if (key) {
+      return key;
+    }
+    const refreshAllowed =
+      now - this._lastFetchAttemptAt >= this._minRefreshIntervalSeconds * 1000;
+    if (!refreshAllowed && !this._pendingFetch) {
+      return this._keys.find(matches);
+    }
+    return (await this._refresh()).find(matches);
+  }
+
+  /**
+   * Fetches the keys, sharing a single fetch between concurrent callers
+   * @private
+   */
+  private _refresh(): Promise<IdentifiedJsonWebKey[]> {
+    if (!this._pendingFetch) {
+      this._lastFetchAttemptAt = Date.now();
+      this._pendingFetch = this._fetchKeys().finally(() => {
+        this._pendingFetch = undefined;
+      });
+    }
+    return this._pendingFetch;
+  }
+
+  /**
+   * Fetches the keys of the endpoint
+   * @private
+   */
+  private async _fetchKeys(): Promise<IdentifiedJsonWebKey[]> {
+    const response = await fetch(this._jwksUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS: ${response.statusText}`);
+    }
+    const jwks: JsonWebKeySet = await response.json();
+    if (!Array.isArray(jwks?.keys)) {
+      throw new Error("Invalid JWKS: missing keys");
+    }
+    this._keys = jwks.keys;
+    this._fetchedAt = Date.now();
+    return this._keys;
+  }
+}
+
+export type {
+  JwtAlgorithm,
+  JwtHeader,
+  DecodedJwt,
+  IdentifiedJsonWebKey,
+  JsonWebKeySet,
+  JwksCacheOptions,
+};
+export {
+  JwksCache,
+  jwkAllowsAlgorithm,
+  isJwtAlgorithm,
+  sha256Hex,
+  generateJwtKeyPair,
+  importJwtPublicKey,
+  signJwt,
+  decodeJwt,
+  verifyJwtSignature,
+};
@@ -0,0 +1,51 @@
+import type { Part } from "../types/types.js";
+
+/**
+ * Gets the MIME type of a part: text/plain for text parts, application/json for data parts
+ * and the file MIME type (or application/octet-stream if not set) for file parts
+ */
+function getPartMimeType(part: Part): string {
+  switch (part.kind) {
+    case "text":
+      return "text/plain";
+    case "data":
+      return "application/json";
+    case "file":
+      return part.file.mimeType ?? "application/octet-stream";
+  }
+}
+
+/**
+ * Gets the essence of a MIME type: lower-cased, without parameters
+ */
+function getMimeEssence(mimeType: string): string {
+  return mimeType.split(";")[0]!.trim().toLowerCase();
+}
+
+/**
+ * Checks if two MIME types or ranges match. Supports `*` and `type/*` wildcards on either side
+ * and ignores parameters, e.g. `text/*` matches `text/plain; charset=utf-8`
+ */
+function mimeTypeMatches(a: string, b: string): boolean {
+  const [aType, aSubtype = "*"] = getMimeEssence(a).split("/");
+  const [bType, bSubtype = "*"] = getMimeEssence(b).split("/");
+  if (aType === "*" || bType === "*") {
+    return true;
+  }
+  return (
+    aType === bType &&
+    (aSubtype === "*" || bSubtype === "*" || aSubtype === bSubtype)
+  );
+}
+
+/**
+ * Checks if a MIME type matches any of the given MIME types or ranges
+ * @param mimeType - The MIME type to check
+ * @param modes - The accepted MIME types or ranges
+ * @returns true if the MIME type is accepted
+ */
+function isMimeTypeAccepted(mimeType: string, modes: string[]): boolean {
+  return modes.some((mode) => mimeTypeMatches(mimeType, mode));
+}
+
+export { getPartMimeType, mimeTypeMatches, isMimeTypeAccepted };
@@ -0,0 +1,38 @@
+/** Header carrying the push notification token registered by the client */
+const PUSH_NOTIFICATION_TOKEN_HEADER = "X-A2A-Notification-Token";
+
+/** Header carrying the JWT signature of a signed push notification */
+const PUSH_NOTIFICATION_SIGNATURE_HEADER = "X-A2A-Notification-Signature";
+
+/**
+ * Compares a received push notification token with the expected token in constant time.
+ * The tokens are hashed first, so the comparison time reveals neither a matching prefix nor the token length
+ * @param received - The received token
+ * @param expected - The expected token
+ * @returns true if the tokens are equal
+ */
+async function isNotificationTokenEqual(
+  received: string,
+  expected: string
+): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [receivedHash, expectedHash] = await Promise.all(
+    [received, expected].map(
+      async (token) =>
+        new Uint8Array(
+          await crypto.subtle.digest("SHA-256", encoder.encode(token))
+        )
+    )
+  );
+  let difference = 0;
+  for (let i = 0; i < expectedHash.length; i++) {
+    difference |= receivedHash[i] ^ expectedHash[i];
+  }
+  return difference === 0;
+}
+
+export {
+  PUSH_NOTIFICATION_TOKEN_HEADER,
+  PUSH_NOTIFICATION_SIGNATURE_HEADER,
+  isNotificationTokenEqual,
+};
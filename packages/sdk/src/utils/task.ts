@@ -86,7 +86,12 @@ class TaskHandler {
     // ToDo: find out how the artifacts parts are aggregated if an artifacts has multimodal parts with chunks.
     if (existingIndex !== -1) {
       if (append) {
-        this.task.artifacts[existingIndex].parts.push(...artifact.parts);
+        // copy the existing artifact so artifacts shared with other tasks or events are not mutated
+        const existing = this.task.artifacts[existingIndex];
+        this.task.artifacts[existingIndex] = {
+          ...existing,
+          parts: [...existing.parts, ...artifact.parts],
+        };
       } else {
         this.task.artifacts[existingIndex] = artifact;
       }
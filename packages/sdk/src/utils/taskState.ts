@@ -0,0 +1,28 @@
+import type { TaskState } from "../types/types.js";
+
+/**
+ * Checks if a task state is final (terminal)
+ *
+ * Final states indicate that the task has completed processing and will not
+ * transition to any other state. These include successful completion, failures,
+ * cancellation, and rejection.
+ *
+ * @param state - The task state to check
+ * @returns true if the state is final, false otherwise
+ */
+const isFinalTaskState = (state: TaskState) =>
+  ["completed", "failed", "canceled", "rejected"].includes(state);
+
+/**
+ * Checks if a task state is pending (requires external input)
+ *
+ * Pending states indicate that the task is waiting for external input
+ * or authorization before it can continue processing.
+ *
+ * @param state - The task state to check
+ * @returns true if the state is pending, false otherwise
+ */
+const isPendingTaskState = (state: TaskState) =>
+  ["input-required", "auth-required"].includes(state);
+
+export { isFinalTaskState, isPendingTaskState };